@@ -0,0 +1,6 @@
+-- Add active attention time to scroll_events table
+ALTER TABLE public.scroll_events
+ADD COLUMN IF NOT EXISTS active_time INTEGER;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.scroll_events.active_time IS 'Time the tab was visible and the visitor not idle (milliseconds)';
@@ -0,0 +1,15 @@
+-- Add acquisition attribution columns to scroll_events table
+ALTER TABLE public.scroll_events
+ADD COLUMN IF NOT EXISTS referrer TEXT,
+ADD COLUMN IF NOT EXISTS source TEXT,
+ADD COLUMN IF NOT EXISTS medium TEXT,
+ADD COLUMN IF NOT EXISTS campaign TEXT;
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_scroll_events_source ON public.scroll_events(tracker_id, source, medium) WHERE event_type = 'pageview';
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.scroll_events.referrer IS 'Referrer origin and path, without query string (pageview events only)';
+COMMENT ON COLUMN public.scroll_events.source IS 'Normalised acquisition source: utm_source, a known site name, the referring host, direct or internal (pageview events only)';
+COMMENT ON COLUMN public.scroll_events.medium IS 'Normalised acquisition medium: utm_medium, organic, social, email, referral, none or internal (pageview events only)';
+COMMENT ON COLUMN public.scroll_events.campaign IS 'Lowercased utm_campaign (pageview events only)';
@@ -0,0 +1,10 @@
+-- Add scroll-back columns to scroll_events table
+ALTER TABLE public.scroll_events
+ADD COLUMN IF NOT EXISTS back_scroll_count INTEGER,
+ADD COLUMN IF NOT EXISTS back_scrolls JSONB,
+ADD COLUMN IF NOT EXISTS re_read_score SMALLINT CHECK (re_read_score >= 0 AND re_read_score <= 100);
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.scroll_events.back_scroll_count IS 'Number of upward scrolls of at least 5% in the session (session_end events only)';
+COMMENT ON COLUMN public.scroll_events.back_scrolls IS 'Up to 20 back-scrolls as [{from, to}] depth pairs (session_end events only)';
+COMMENT ON COLUMN public.scroll_events.re_read_score IS 'Distance scrolled back as a percentage of the deepest point reached, capped at 100 (session_end events only)';
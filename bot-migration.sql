@@ -0,0 +1,50 @@
+-- Add bot classification column to scroll_events table
+ALTER TABLE public.scroll_events
+ADD COLUMN IF NOT EXISTS bot_reason TEXT CHECK (bot_reason IN ('user-agent', 'webdriver', 'zero-viewport', 'scroll-speed'));
+
+-- Flag stored events from the most common crawlers and headless browsers.
+-- The dashboard matches older rows against the full pattern list as well.
+UPDATE public.scroll_events
+SET bot_reason = 'user-agent'
+WHERE bot_reason IS NULL
+  AND ua ~* '(bot\y|crawl|spider|slurp|headless|phantomjs|puppeteer|playwright|selenium|lighthouse|facebookexternalhit|^curl|^wget|python-requests|go-http-client)';
+
+-- Keep bot sessions apart in the per page dwell totals, so the dashboard can
+-- include or exclude them
+DROP VIEW IF EXISTS public.page_dwell_histograms;
+CREATE VIEW public.page_dwell_histograms
+WITH (security_invoker = true) AS
+WITH latest AS (
+  SELECT DISTINCT ON (session_id) session_id, tracker_id, page_url, dwell_histogram, sample_rate, bot_reason IS NOT NULL AS bot
+  FROM public.scroll_events
+  WHERE event_type = 'session_end'
+    AND session_id IS NOT NULL
+    AND dwell_histogram IS NOT NULL
+  ORDER BY session_id, occurred_at DESC
+),
+bands AS (
+  SELECT
+    tracker_id,
+    regexp_replace(page_url, '^[a-zA-Z]+://([^?#]*).*$', '\1') AS page,
+    bot,
+    band,
+    ROUND(SUM(ms / sample_rate))::BIGINT AS total_ms,
+    ROUND(SUM(1 / sample_rate))::BIGINT AS sessions
+  FROM latest, unnest(dwell_histogram) WITH ORDINALITY AS h(ms, band)
+  GROUP BY tracker_id, page, bot, band
+)
+SELECT
+  tracker_id,
+  page,
+  bot,
+  MAX(sessions) AS sessions,
+  array_agg(total_ms ORDER BY band) AS dwell
+FROM bands
+GROUP BY tracker_id, page, bot;
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_scroll_events_bot ON public.scroll_events(tracker_id, occurred_at) WHERE bot_reason IS NOT NULL;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.scroll_events.bot_reason IS 'Why the event looks automated (user-agent, webdriver, zero-viewport, scroll-speed); NULL for likely humans';
+COMMENT ON VIEW public.page_dwell_histograms IS 'Summed dwell_histogram per tracker, page (host and path) and bot flag across sessions, scaled up by sample rate';
@@ -0,0 +1,19 @@
+-- Add click tracking columns to scroll_events table
+ALTER TABLE public.scroll_events
+ADD COLUMN IF NOT EXISTS click_kind TEXT CHECK (click_kind IN ('cta', 'outbound')),
+ADD COLUMN IF NOT EXISTS click_target TEXT,
+ADD COLUMN IF NOT EXISTS click_label TEXT;
+
+ALTER TABLE public.scroll_events
+DROP CONSTRAINT IF EXISTS scroll_events_event_type_check;
+ALTER TABLE public.scroll_events
+ADD CONSTRAINT scroll_events_event_type_check
+CHECK (event_type IN ('pageview', 'scroll', 'milestone', 'session_end', 'section', 'custom', 'click'));
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_scroll_events_click ON public.scroll_events(tracker_id, click_target) WHERE event_type = 'click';
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.scroll_events.click_kind IS 'cta for data-scrollsensie-cta elements, outbound for links to other hosts (click events only)';
+COMMENT ON COLUMN public.scroll_events.click_target IS 'data-scrollsensie-cta value, or the outbound URL without query string (click events only)';
+COMMENT ON COLUMN public.scroll_events.click_label IS 'Visible text of the clicked element, up to 100 characters (click events only)';
@@ -0,0 +1,20 @@
+-- Add custom event and visitor trait columns to scroll_events table
+ALTER TABLE public.scroll_events
+ADD COLUMN IF NOT EXISTS event_name TEXT,
+ADD COLUMN IF NOT EXISTS properties JSONB,
+ADD COLUMN IF NOT EXISTS traits JSONB;
+
+ALTER TABLE public.scroll_events
+DROP CONSTRAINT IF EXISTS scroll_events_event_type_check;
+ALTER TABLE public.scroll_events
+ADD CONSTRAINT scroll_events_event_type_check
+CHECK (event_type IN ('pageview', 'scroll', 'milestone', 'session_end', 'section', 'custom'));
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_scroll_events_custom ON public.scroll_events(tracker_id, event_name) WHERE event_type = 'custom';
+CREATE INDEX IF NOT EXISTS idx_scroll_events_properties ON public.scroll_events USING GIN(properties);
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.scroll_events.event_name IS 'Name passed to scrollsensie.track() (custom events only)';
+COMMENT ON COLUMN public.scroll_events.properties IS 'Properties passed to scrollsensie.track() (custom events only)';
+COMMENT ON COLUMN public.scroll_events.traits IS 'Anonymous visitor traits set with scrollsensie.identify()';
@@ -0,0 +1,41 @@
+-- Add dwell histogram column to scroll_events table
+ALTER TABLE public.scroll_events
+ADD COLUMN IF NOT EXISTS dwell_histogram INTEGER[] CHECK (cardinality(dwell_histogram) = 20);
+
+-- Per page dwell totals, from the latest summary of each session (summaries
+-- are cumulative and resent whenever the tab is hidden). Pages are grouped
+-- by host and path, like the dashboard does.
+CREATE OR REPLACE VIEW public.page_dwell_histograms
+WITH (security_invoker = true) AS
+WITH latest AS (
+  SELECT DISTINCT ON (session_id) session_id, tracker_id, page_url, dwell_histogram
+  FROM public.scroll_events
+  WHERE event_type = 'session_end'
+    AND session_id IS NOT NULL
+    AND dwell_histogram IS NOT NULL
+  ORDER BY session_id, occurred_at DESC
+),
+bands AS (
+  SELECT
+    tracker_id,
+    regexp_replace(page_url, '^[a-zA-Z]+://([^?#]*).*$', '\1') AS page,
+    band,
+    SUM(ms)::BIGINT AS total_ms,
+    COUNT(*) AS sessions
+  FROM latest, unnest(dwell_histogram) WITH ORDINALITY AS h(ms, band)
+  GROUP BY tracker_id, page, band
+)
+SELECT
+  tracker_id,
+  page,
+  MAX(sessions) AS sessions,
+  array_agg(total_ms ORDER BY band) AS dwell
+FROM bands
+GROUP BY tracker_id, page;
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_scroll_events_dwell ON public.scroll_events(session_id, occurred_at DESC) WHERE event_type = 'session_end' AND dwell_histogram IS NOT NULL;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.scroll_events.dwell_histogram IS 'Active milliseconds each 5% depth band spent in the viewport, 20 bands from the top (session_end events only)';
+COMMENT ON VIEW public.page_dwell_histograms IS 'Summed dwell_histogram per tracker and page (host and path) across sessions';
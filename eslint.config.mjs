@@ -17,6 +17,7 @@ const eslintConfig = [
       ".next/**",
       "out/**",
       "build/**",
+      "packages/*/dist/**",
       "next-env.d.ts",
     ],
   },
@@ -0,0 +1,27 @@
+-- Add event type columns to scroll_events table
+ALTER TABLE public.scroll_events
+ADD COLUMN IF NOT EXISTS event_type TEXT NOT NULL DEFAULT 'scroll',
+ADD COLUMN IF NOT EXISTS milestone SMALLINT;
+
+ALTER TABLE public.scroll_events
+DROP CONSTRAINT IF EXISTS scroll_events_event_type_check;
+ALTER TABLE public.scroll_events
+ADD CONSTRAINT scroll_events_event_type_check
+CHECK (event_type IN ('pageview', 'scroll', 'milestone', 'session_end'));
+
+-- Backfill existing rows: milestone posts were the only ones carrying
+-- engagement data, and the initial post of every page load had depth 0
+UPDATE public.scroll_events
+SET event_type = CASE
+  WHEN engagement_data IS NOT NULL THEN 'milestone'
+  WHEN scroll_depth = 0 THEN 'pageview'
+  ELSE 'scroll'
+END
+WHERE event_type = 'scroll';
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_scroll_events_tracker_type ON public.scroll_events(tracker_id, event_type, occurred_at);
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.scroll_events.event_type IS 'Event type: pageview, scroll, milestone or session_end';
+COMMENT ON COLUMN public.scroll_events.milestone IS 'Milestone percentage reached (milestone events only)';
@@ -0,0 +1,11 @@
+-- Add A/B experiment columns to scroll_events table
+ALTER TABLE public.scroll_events
+ADD COLUMN IF NOT EXISTS experiment TEXT,
+ADD COLUMN IF NOT EXISTS variant TEXT;
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_scroll_events_experiment ON public.scroll_events(tracker_id, experiment, variant) WHERE experiment IS NOT NULL;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.scroll_events.experiment IS 'A/B experiment name from data-experiment or scrollsensie.setVariant()';
+COMMENT ON COLUMN public.scroll_events.variant IS 'A/B variant shown, from data-variant or scrollsensie.setVariant()';
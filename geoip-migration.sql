@@ -0,0 +1,11 @@
+-- Add visitor location columns to scroll_events table
+ALTER TABLE public.scroll_events
+ADD COLUMN IF NOT EXISTS country TEXT CHECK (country ~ '^[A-Z]{2}$'),
+ADD COLUMN IF NOT EXISTS region TEXT;
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_scroll_events_country ON public.scroll_events(tracker_id, country) WHERE country IS NOT NULL;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.scroll_events.country IS 'ISO 3166-1 alpha-2 country of the client IP, from the local GeoIP database at ingestion; NULL when unknown';
+COMMENT ON COLUMN public.scroll_events.region IS 'Region (state, province) of the client IP, when the GeoIP database has one';
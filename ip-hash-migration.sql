@@ -0,0 +1,51 @@
+-- Replace raw IP addresses with daily salted hashes
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+ALTER TABLE public.scroll_events
+ADD COLUMN IF NOT EXISTS ip_hash TEXT;
+
+-- One random salt per UTC day, written and read by /api/track with the
+-- service role only (RLS on, no policies). Old salts are deleted as soon as
+-- the next day's exists.
+CREATE TABLE IF NOT EXISTS public.ip_hash_salts (
+  day DATE PRIMARY KEY,
+  salt TEXT NOT NULL
+);
+
+ALTER TABLE public.ip_hash_salts ENABLE ROW LEVEL SECURITY;
+
+-- Hash the IPs already stored the same way, with a throwaway salt per day,
+-- so visitors stay countable within each day. The salts are discarded with
+-- the raw addresses.
+CREATE TEMP TABLE migration_ip_salts AS
+SELECT day, encode(gen_random_bytes(32), 'hex') AS salt
+FROM (
+  SELECT DISTINCT (occurred_at AT TIME ZONE 'UTC')::DATE AS day
+  FROM public.scroll_events
+  WHERE ip_address IS NOT NULL
+) days;
+
+UPDATE public.scroll_events e
+SET ip_hash = left(
+  encode(
+    hmac(e.tracker_id || ':' || trim(split_part(e.ip_address, ',', 1)), s.salt, 'sha256'),
+    'hex'
+  ),
+  32
+)
+FROM migration_ip_salts s
+WHERE e.ip_address IS NOT NULL
+  AND e.ip_address <> 'unknown'
+  AND s.day = (e.occurred_at AT TIME ZONE 'UTC')::DATE;
+
+DROP TABLE migration_ip_salts;
+
+ALTER TABLE public.scroll_events
+DROP COLUMN IF EXISTS ip_address;
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_scroll_events_ip_hash ON public.scroll_events(tracker_id, ip_hash) WHERE ip_hash IS NOT NULL;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.scroll_events.ip_hash IS 'HMAC of tracker ID and client IP under a salt that rotates daily, for counting unique visitors within a day; the raw IP is never stored';
+COMMENT ON TABLE public.ip_hash_salts IS 'Current daily salt for ip_hash; older salts are deleted so hashes cannot be reversed or linked across days';
@@ -0,0 +1,1250 @@
+// Framework-agnostic tracker core. startTracker() must stay self-contained:
+// /api/tracker.js serves its source text, so it can't use imports or
+// anything else declared outside its own body. Types are fine.
+
+export type TrackerSettings = {
+  milestones: number[];
+  sampleRate: number;
+  spa: boolean;
+  respectPrivacySignals: boolean;
+  contentSelector: string;
+  trackOutboundLinks: boolean;
+  webVitals: boolean;
+};
+
+export type PropertyValue = string | number | boolean | null;
+export type Properties = Record<string, PropertyValue>;
+
+export type ConsentMode = "pending" | "granted";
+
+export type TrackerOptions = {
+  settings: TrackerSettings;
+  // Falls back to data-id or the id query parameter of `script`
+  trackerId?: string;
+  // Defaults to /api/track on the origin `script` was loaded from, else the
+  // page's origin
+  endpoint?: string;
+  // "pending" holds events in memory until consent(true)
+  consent?: ConsentMode;
+  // CSS selector of the element the content scrolls in
+  scrollContainer?: string;
+  experiment?: string;
+  variant?: string;
+  // The embed's <script> tag; its data-* attributes fill in the options above
+  script?: HTMLOrSVGScriptElement | null;
+};
+
+export type ScrollSensieApi = {
+  pageview(): void;
+  setPage(url: string): void;
+  track(name: string, properties?: Properties): void;
+  identify(anonymousTraits: Properties): void;
+  setVariant(experiment: string | null, variant?: string): void;
+  consent(granted: boolean): void;
+  optOut(): void;
+  optIn(): void;
+};
+
+// Dispatched on window whenever a page view reaches a new maximum depth
+export type DepthEventDetail = {
+  depth: number;
+  sessionId: string;
+};
+
+export const DEPTH_EVENT = "scrollsensie:depth";
+export const MILESTONE_EVENT = "scrolltracker:milestone";
+
+declare global {
+  interface Window {
+    scrollsensie?: ScrollSensieApi;
+    __scrollsensieStarted?: boolean;
+  }
+}
+
+type EventData = Record<string, unknown>;
+type Payload = EventData & { visitorId: string };
+type RetryEntry = {
+  events: Payload[];
+  savedAt: number;
+  attempts: number;
+  nextAttempt: number;
+};
+type SectionState = {
+  firstSeenAt: number | null;
+  depth: number;
+  visibleTime: number;
+  visibleSince: number | null;
+  paused: boolean;
+};
+type BackScroll = { from: number; to: number };
+type Variant = { experiment: string; variant: string };
+type VitalEntry = PerformanceEntry & {
+  value?: number;
+  hadRecentInput?: boolean;
+  interactionId?: number;
+};
+
+// Start tracking the current page. Safe to call more than once: later calls
+// return the API of the tracker already running.
+export function startTracker(options: TrackerOptions): ScrollSensieApi {
+  const CONFIG = options.settings;
+  const script = options.script || null;
+  const attr = (name: string) => (script && script.getAttribute(name)) || null;
+
+  // Public API. Methods are no-ops until tracking starts, so sites can call
+  // them even on page views that are opted out.
+  const OPT_OUT_KEY = "scrollsensie_optout";
+  const noop = () => {};
+  const api: ScrollSensieApi = (window.scrollsensie = window.scrollsensie || {
+    pageview: noop,
+    setPage: noop,
+    track: noop,
+    identify: noop,
+    setVariant: noop,
+    consent: noop,
+    optOut: noop,
+    optIn: noop,
+  });
+  if (window.__scrollsensieStarted) return api;
+  window.__scrollsensieStarted = true;
+
+  api.optOut = function () {
+    try {
+      localStorage.setItem(OPT_OUT_KEY, "1");
+    } catch {}
+  };
+  // Lifts a persistent opt-out; tracking resumes on the next page load
+  api.optIn = function () {
+    try {
+      localStorage.removeItem(OPT_OUT_KEY);
+    } catch {}
+  };
+
+  const SCRIPT_ID = (function () {
+    try {
+      const src = script && "src" in script ? script.src : "";
+      return src ? new URL(src).searchParams.get("id") : null;
+    } catch {
+      return null;
+    }
+  })();
+  const TRACKER_ID =
+    options.trackerId ||
+    new URLSearchParams(location.search).get("id") ||
+    attr("data-id") ||
+    SCRIPT_ID ||
+    "";
+  if (!TRACKER_ID) {
+    console.warn("[scrolltracker] missing tracker id");
+    return api;
+  }
+
+  // Sites with a cookie banner start with consent "pending"
+  // (data-consent="pending" on the embed): events are held in memory and
+  // nothing is stored or sent until scrollsensie.consent(true)
+  let consentState: "pending" | "granted" | "denied" =
+    (options.consent || attr("data-consent")) === "pending"
+      ? "pending"
+      : "granted";
+
+  try {
+    if (localStorage.getItem(OPT_OUT_KEY) === "1") return api;
+  } catch {}
+
+  // Trackers configured to respect privacy signals don't report visitors
+  // sending Do Not Track or Global Privacy Control
+  if (CONFIG.respectPrivacySignals) {
+    const nav = navigator as Navigator & {
+      msDoNotTrack?: string;
+      globalPrivacyControl?: boolean;
+    };
+    const dnt =
+      nav.doNotTrack ||
+      (window as Window & { doNotTrack?: string }).doNotTrack ||
+      nav.msDoNotTrack;
+    if (dnt === "1" || dnt === "yes" || nav.globalPrivacyControl === true) {
+      return api;
+    }
+  }
+
+  const ENDPOINT =
+    options.endpoint ||
+    (function () {
+      try {
+        const src = script && "src" in script ? script.src : "";
+        const origin = src ? new URL(src).origin : window.location.origin;
+        return new URL("/api/track", origin).toString();
+      } catch {
+        return "/api/track";
+      }
+    })();
+
+  // Anonymous identity: a first-party visitor ID that rotates every 30 days,
+  // and a fresh session ID for every page view
+  const VISITOR_KEY = "scrollsensie_vid";
+  const VISITOR_TTL = 30 * 24 * 60 * 60 * 1000;
+
+  function randomId() {
+    try {
+      if (window.crypto && window.crypto.randomUUID) {
+        return window.crypto.randomUUID().replace(/-/g, "");
+      }
+    } catch {}
+    let id = "";
+    while (id.length < 32) id += Math.random().toString(16).slice(2);
+    return id.slice(0, 32);
+  }
+
+  function getVisitorId(): string {
+    const now = Date.now();
+    try {
+      const stored = JSON.parse(localStorage.getItem(VISITOR_KEY) || "null");
+      if (stored && stored.id && now - stored.created < VISITOR_TTL) {
+        return stored.id;
+      }
+      const fresh = { id: randomId(), created: now };
+      localStorage.setItem(VISITOR_KEY, JSON.stringify(fresh));
+      return fresh.id;
+    } catch {
+      // Storage blocked: fall back to an identity that only lives for this page
+      return randomId();
+    }
+  }
+
+  // Without consent the visitor ID lives in memory only
+  let visitorId = consentState === "granted" ? getVisitorId() : randomId();
+  let sessionId = randomId();
+
+  // Sampling is decided per session from a hash of its ID, so a session's
+  // events are kept or dropped together. Kept events carry the rate so the
+  // dashboard can scale totals back up.
+  function inSample(id: string) {
+    if (CONFIG.sampleRate >= 1) return true;
+    let hash = 2166136261;
+    for (let i = 0; i < id.length; i++) {
+      hash ^= id.charCodeAt(i);
+      hash = Math.imul(hash, 16777619);
+    }
+    return (hash >>> 0) / 4294967296 < CONFIG.sampleRate;
+  }
+  let sampled = inSample(sessionId);
+  let pageUrl = window.location.href;
+
+  // Where the visitor came from: the referrer and utm_* parameters of the
+  // landing page. SPA page views keep reporting the landing attribution.
+  const ATTRIBUTION = (function () {
+    const params = new URLSearchParams(window.location.search);
+    const attribution: EventData = {};
+    if (document.referrer) {
+      attribution.referrer = document.referrer.slice(0, 500);
+    }
+    const utm: Record<string, string> = {};
+    ["source", "medium", "campaign"].forEach((key) => {
+      const value = params.get("utm_" + key);
+      if (value) utm[key] = value.slice(0, 100);
+    });
+    if (Object.keys(utm).length) attribution.utm = utm;
+    return attribution;
+  })();
+
+  let maxDepth = 0;
+  let ticking = false;
+  const MILESTONES = CONFIG.milestones;
+  const fired = new Set<number>();
+
+  // Engagement tracking
+  let startTime = Date.now();
+  let scrollEvents: { depth: number; timestamp: number; timeOnPage: number }[] =
+    [];
+  let isPageActive = !document.hidden;
+
+  // Active attention: time the tab was visible and the visitor interacted
+  // within the last IDLE_TIMEOUT. Reading without input counts until then.
+  const IDLE_TIMEOUT = 30000;
+  let activeTime = 0;
+  let activeSince: number | null = null;
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+  function markActive() {
+    if (!isPageActive) return;
+    if (activeSince === null) {
+      activeSince = Date.now();
+      recordDwell();
+    }
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(markIdle, IDLE_TIMEOUT);
+  }
+
+  function markIdle() {
+    if (activeSince !== null) {
+      activeTime += Date.now() - activeSince;
+      activeSince = null;
+      recordDwell();
+    }
+    clearTimeout(idleTimer);
+  }
+
+  function getActiveTime() {
+    return activeTime + (activeSince !== null ? Date.now() - activeSince : 0);
+  }
+
+  // Pages whose content scrolls inside an element (docs sites, app panels)
+  // pass its selector (data-scroll-container on the embed). If the matched
+  // element doesn't scroll itself, its first scrolling descendant is used,
+  // so wrappers around nested containers work too.
+  const CONTAINER_SELECTOR =
+    options.scrollContainer || attr("data-scroll-container");
+  let scrollContainer: Element | null = null;
+
+  function isScrollable(el: Element) {
+    if (el.scrollHeight <= el.clientHeight + 1) return false;
+    const overflow = window.getComputedStyle(el).overflowY;
+    return (
+      overflow === "auto" || overflow === "scroll" || overflow === "overlay"
+    );
+  }
+
+  function findScrollContainer(): Element | null {
+    if (!CONTAINER_SELECTOR) return null;
+    if (scrollContainer && scrollContainer.isConnected) return scrollContainer;
+    let root: Element | null = null;
+    try {
+      root = document.querySelector(CONTAINER_SELECTOR);
+    } catch {
+      return null;
+    }
+    if (!root) return null;
+    if (isScrollable(root)) {
+      scrollContainer = root;
+      return root;
+    }
+    const nested = root.querySelectorAll("*");
+    for (let i = 0; i < nested.length; i++) {
+      if (isScrollable(nested[i])) {
+        scrollContainer = nested[i];
+        return scrollContainer;
+      }
+    }
+    // Not scrollable yet (content still loading): measure the element anyway
+    return root;
+  }
+
+  function getScrollDepth() {
+    const container = findScrollContainer();
+    if (container) {
+      const range = Math.max(
+        container.scrollHeight - container.clientHeight,
+        1
+      );
+      return Math.min(100, Math.round((container.scrollTop / range) * 100));
+    }
+    const scrollTop =
+      window.pageYOffset || document.documentElement.scrollTop || 0;
+    const docHeight = Math.max(
+      document.body.scrollHeight,
+      document.documentElement.scrollHeight,
+      document.body.offsetHeight,
+      document.documentElement.offsetHeight,
+      document.body.clientHeight,
+      document.documentElement.clientHeight
+    );
+    const winHeight =
+      window.innerHeight || document.documentElement.clientHeight || 0;
+    const total = Math.max(docHeight - winHeight, 1);
+    return Math.min(100, Math.round((scrollTop / total) * 100));
+  }
+
+  function getText(el: Element) {
+    return (el as HTMLElement).innerText || el.textContent || "";
+  }
+
+  // Content length, so the server can estimate reading time. Word counts
+  // come from CONFIG.contentSelector, else the first article or main
+  // element, else the whole body.
+  function getContentElement() {
+    if (CONFIG.contentSelector) {
+      try {
+        const configured = document.querySelector(CONFIG.contentSelector);
+        if (configured) return configured;
+      } catch {}
+    }
+    return (
+      document.querySelector('article, main, [role="main"]') || document.body
+    );
+  }
+
+  function getContentMetrics() {
+    const container = findScrollContainer();
+    const documentHeight = container
+      ? container.scrollHeight
+      : Math.max(
+          document.body.scrollHeight,
+          document.documentElement.scrollHeight
+        );
+    const content = getContentElement();
+    const text = content ? getText(content) : "";
+    return {
+      documentHeight: Math.round(documentHeight),
+      wordCount: text.split(/\s+/).filter(Boolean).length,
+    };
+  }
+
+  // Dwell histogram: active time each 5% band of the page spent in the
+  // viewport. Time is credited to the bands in view whenever the view or
+  // the active state changes.
+  const DWELL_BANDS = 20;
+  let dwell: number[] = new Array(DWELL_BANDS).fill(0);
+  let dwellBands: [number, number] | null = null;
+  let dwellSince: number | null = null;
+
+  function getVisibleBands(): [number, number] | null {
+    const container = findScrollContainer();
+    const top = container
+      ? container.scrollTop
+      : window.pageYOffset || document.documentElement.scrollTop || 0;
+    const view = container
+      ? container.clientHeight
+      : window.innerHeight || document.documentElement.clientHeight || 0;
+    const height = container
+      ? container.scrollHeight
+      : Math.max(
+          document.body.scrollHeight,
+          document.documentElement.scrollHeight
+        );
+    if (!height || !view) return null;
+    const clamp = (band: number) =>
+      Math.max(0, Math.min(DWELL_BANDS - 1, band));
+    return [
+      clamp(Math.floor((top / height) * DWELL_BANDS)),
+      clamp(
+        Math.ceil((Math.min(top + view, height) / height) * DWELL_BANDS) - 1
+      ),
+    ];
+  }
+
+  function recordDwell() {
+    const now = Date.now();
+    if (dwellSince !== null && dwellBands) {
+      for (let i = dwellBands[0]; i <= dwellBands[1]; i++) {
+        dwell[i] += now - dwellSince;
+      }
+    }
+    dwellSince = activeSince !== null ? now : null;
+    dwellBands = dwellSince !== null ? getVisibleBands() : null;
+  }
+
+  function resetDwell() {
+    dwell = new Array(DWELL_BANDS).fill(0);
+    dwellBands = null;
+    dwellSince = null;
+    recordDwell();
+  }
+
+  function getDwellHistogram() {
+    recordDwell();
+    return dwell.map((ms) => Math.round(ms));
+  }
+
+  function getEngagement(timeOnPage: number) {
+    return {
+      timeOnPage: timeOnPage,
+      maxDepth: maxDepth,
+      scrollEvents: scrollEvents.length,
+      avgScrollSpeed:
+        scrollEvents.length > 1 ? timeOnPage / scrollEvents.length : 0,
+    };
+  }
+
+  function buildPayload(type: string, data: EventData): Payload {
+    return {
+      type: type,
+      trackerId: TRACKER_ID,
+      sessionId: sessionId,
+      visitorId: visitorId,
+      pageUrl: pageUrl,
+      timestamp: Date.now(),
+      ...(CONTAINER_SELECTOR ? { container: CONTAINER_SELECTOR } : {}),
+      ...(traits ? { traits: traits } : {}),
+      ...getVariant(),
+      ...(CONFIG.sampleRate < 1 ? { sampleRate: CONFIG.sampleRate } : {}),
+      ...data,
+      device: {
+        ua: navigator.userAgent,
+        width: window.innerWidth,
+        height: window.innerHeight,
+        // Set by automated browsers; the server flags their events as bots
+        ...(navigator.webdriver ? { webdriver: true } : {}),
+      },
+    };
+  }
+
+  // Events are buffered and delivered in batches: on a timer, right after
+  // a milestone, and with a beacon when the page is hidden
+  const FLUSH_INTERVAL = 5000;
+  const MAX_BATCH = 50;
+  const MAX_PENDING = 500;
+  let queue: Payload[] = [];
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  let optedOut = false;
+
+  function send(type: string, data: EventData) {
+    if (optedOut || consentState === "denied" || !sampled) return;
+    if (consentState === "pending") {
+      if (queue.length < MAX_PENDING) queue.push(buildPayload(type, data));
+      return;
+    }
+    queue.push(buildPayload(type, data));
+    if (queue.length >= MAX_BATCH) {
+      flush();
+    } else if (!flushTimer) {
+      flushTimer = setTimeout(flush, FLUSH_INTERVAL);
+    }
+  }
+
+  function flush(useBeacon?: boolean) {
+    if (flushTimer) clearTimeout(flushTimer);
+    flushTimer = null;
+    if (consentState !== "granted" || !queue.length) return;
+    const events = queue;
+    queue = [];
+    if (useBeacon) {
+      try {
+        if (
+          navigator.sendBeacon &&
+          navigator.sendBeacon(ENDPOINT, JSON.stringify(events))
+        ) {
+          return;
+        }
+      } catch {}
+    }
+    deliver(events, null);
+  }
+
+  function deliver(events: Payload[], retryEntry: RetryEntry | null) {
+    if (navigator.onLine === false) {
+      retryLater(events, retryEntry);
+      return;
+    }
+    try {
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 3000);
+      fetch(ENDPOINT, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(events),
+        keepalive: true,
+        signal: controller.signal,
+      })
+        .then((res) => {
+          // Rejected payloads won't improve on retry; server trouble might
+          if (res.status >= 500 || res.status === 429) {
+            retryLater(events, retryEntry);
+          }
+        })
+        .catch(() => retryLater(events, retryEntry));
+    } catch {
+      /* noop */
+    }
+  }
+
+  // Failed deliveries go to a bounded localStorage queue and are retried
+  // with backoff on the next page load or when the browser comes back
+  // online. Entries expire after a day so the queue can't grow forever.
+  const RETRY_KEY = "scrollsensie_retry";
+  const RETRY_MAX_ENTRIES = 20;
+  const RETRY_MAX_AGE = 24 * 60 * 60 * 1000;
+  const RETRY_BASE_DELAY = 5000;
+  const RETRY_MAX_DELAY = 5 * 60 * 1000;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  function readRetryQueue(): RetryEntry[] {
+    try {
+      const now = Date.now();
+      const stored = JSON.parse(localStorage.getItem(RETRY_KEY) || "[]");
+      if (!Array.isArray(stored)) return [];
+      return stored.filter(
+        (entry) =>
+          entry &&
+          Array.isArray(entry.events) &&
+          now - entry.savedAt < RETRY_MAX_AGE
+      );
+    } catch {
+      return [];
+    }
+  }
+
+  function writeRetryQueue(entries: RetryEntry[]) {
+    try {
+      if (entries.length) {
+        localStorage.setItem(
+          RETRY_KEY,
+          JSON.stringify(entries.slice(-RETRY_MAX_ENTRIES))
+        );
+      } else {
+        localStorage.removeItem(RETRY_KEY);
+      }
+    } catch {
+      /* noop */
+    }
+  }
+
+  function retryLater(events: Payload[], retryEntry: RetryEntry | null) {
+    const attempts = retryEntry ? retryEntry.attempts + 1 : 0;
+    const entries = readRetryQueue();
+    entries.push({
+      events: events,
+      savedAt: retryEntry ? retryEntry.savedAt : Date.now(),
+      attempts: attempts,
+      nextAttempt:
+        Date.now() +
+        Math.min(RETRY_BASE_DELAY * Math.pow(2, attempts), RETRY_MAX_DELAY),
+    });
+    writeRetryQueue(entries);
+    scheduleRetry();
+  }
+
+  function retryFailed() {
+    if (consentState !== "granted" || navigator.onLine === false) return;
+    const now = Date.now();
+    const entries = readRetryQueue();
+    // Take due entries out of the queue before sending so another tab
+    // doesn't pick them up as well
+    writeRetryQueue(entries.filter((entry) => entry.nextAttempt > now));
+    entries.forEach((entry) => {
+      if (entry.nextAttempt <= now) deliver(entry.events, entry);
+    });
+    scheduleRetry();
+  }
+
+  function scheduleRetry() {
+    clearTimeout(retryTimer);
+    const entries = readRetryQueue();
+    if (!entries.length) return;
+    const next = Math.min(...entries.map((entry) => entry.nextAttempt));
+    retryTimer = setTimeout(retryFailed, Math.max(next - Date.now(), 0));
+  }
+
+  window.addEventListener("online", () => {
+    // Connectivity is back: skip the remaining backoff
+    const entries = readRetryQueue();
+    entries.forEach((entry) => {
+      entry.nextAttempt = 0;
+    });
+    writeRetryQueue(entries);
+    retryFailed();
+  });
+
+  function trackScroll(depth: number) {
+    const timeOnPage = Date.now() - startTime;
+
+    // Track scroll events for engagement analysis
+    scrollEvents.push({
+      depth: depth,
+      timestamp: Date.now(),
+      timeOnPage: timeOnPage,
+    });
+    send("scroll", { scrollDepth: depth, timeOnPage: timeOnPage });
+  }
+
+  function dispatch(name: string, detail: unknown) {
+    try {
+      window.dispatchEvent(new CustomEvent(name, { detail: detail }));
+    } catch {}
+  }
+
+  function trackMilestone(milestone: number) {
+    const timeOnPage = Date.now() - startTime;
+    send("milestone", {
+      milestone: milestone,
+      scrollDepth: maxDepth,
+      timeOnPage: timeOnPage,
+      activeTime: getActiveTime(),
+      maxScrollDepth: maxDepth,
+      scrollEvents: scrollEvents.length,
+      engagement: getEngagement(timeOnPage),
+    });
+    flush();
+    dispatch("scrolltracker:milestone", { milestone, depth: maxDepth });
+  }
+
+  // Section visibility: elements marked data-scrollsensie-section count as
+  // seen while half of the element, or half of the viewport, shows it
+  let sections = new Map<string, SectionState>();
+  let observedSections = new WeakSet<Element>();
+  const sectionObserver =
+    "IntersectionObserver" in window
+      ? new IntersectionObserver(onSectionChange, {
+          threshold: [0, 0.25, 0.5, 0.75, 1],
+        })
+      : null;
+
+  function isSectionVisible(entry: IntersectionObserverEntry) {
+    if (!entry.isIntersecting || document.hidden) return false;
+    const viewport =
+      window.innerHeight || document.documentElement.clientHeight || 1;
+    return (
+      entry.intersectionRatio >= 0.5 ||
+      entry.intersectionRect.height >= viewport * 0.5
+    );
+  }
+
+  function onSectionChange(entries: IntersectionObserverEntry[]) {
+    const now = Date.now();
+    entries.forEach((entry) => {
+      const name = entry.target.getAttribute("data-scrollsensie-section");
+      if (!name) return;
+      const section = sections.get(name) || {
+        firstSeenAt: null,
+        depth: 0,
+        visibleTime: 0,
+        visibleSince: null,
+        paused: false,
+      };
+      const visible = isSectionVisible(entry);
+      if (visible && section.visibleSince === null) {
+        section.visibleSince = now;
+        if (section.firstSeenAt === null) {
+          section.firstSeenAt = now - startTime;
+          section.depth = getScrollDepth();
+        }
+      } else if (!visible && section.visibleSince !== null) {
+        section.visibleTime += now - section.visibleSince;
+        section.visibleSince = null;
+      }
+      section.paused = false;
+      sections.set(name, section);
+    });
+  }
+
+  function observeSections() {
+    if (!sectionObserver) return;
+    document.querySelectorAll("[data-scrollsensie-section]").forEach((el) => {
+      if (observedSections.has(el)) return;
+      observedSections.add(el);
+      sectionObserver.observe(el);
+    });
+  }
+
+  // Hidden tabs don't count towards dwell time
+  function pauseSections() {
+    const now = Date.now();
+    sections.forEach((section) => {
+      if (section.visibleSince === null) return;
+      section.visibleTime += now - section.visibleSince;
+      section.visibleSince = null;
+      section.paused = true;
+    });
+  }
+
+  function resumeSections() {
+    const now = Date.now();
+    sections.forEach((section) => {
+      if (!section.paused) return;
+      section.visibleSince = now;
+      section.paused = false;
+    });
+  }
+
+  function resetSections() {
+    sections = new Map();
+    observedSections = new WeakSet();
+    if (sectionObserver) sectionObserver.disconnect();
+  }
+
+  // The summary is cumulative, so sending it again after the visitor comes
+  // back to the tab simply supersedes the earlier one
+  let summarySent = false;
+
+  function sendSessionEnd() {
+    if (!summarySent) queueSummary();
+    flush(true);
+  }
+
+  function queueSummary() {
+    summarySent = true;
+    const now = Date.now();
+    const totalTimeOnPage = now - startTime;
+    send("session_end", {
+      totalTimeOnPage: totalTimeOnPage,
+      activeTime: getActiveTime(),
+      maxScrollDepth: maxDepth,
+      scrollEvents: scrollEvents.length,
+      engagement: getEngagement(totalTimeOnPage),
+      ...getBackScrollSummary(),
+      ...getContentMetrics(),
+      dwell: getDwellHistogram(),
+      ...getWebVitals(),
+    });
+    sections.forEach((section, name) => {
+      if (section.firstSeenAt === null) return;
+      send("section", {
+        section: name,
+        scrollDepth: section.depth,
+        timeOnPage: section.firstSeenAt,
+        visibleTime:
+          section.visibleTime +
+          (section.visibleSince !== null ? now - section.visibleSince : 0),
+      });
+    });
+  }
+
+  // Core Web Vitals (LCP, CLS, INP) when CONFIG.webVitals is on. They
+  // describe the hard page load, so only its summary reports them.
+  const VITALS_SESSION = sessionId;
+  const vitals: { lcp?: number; cls?: number; inp?: number } = {};
+  const interactions = new Map<number, number>();
+  let clsWindow = 0;
+  let clsWindowStart = 0;
+  let clsLastShift = 0;
+
+  function observeVital(
+    type: string,
+    onEntry: (entry: VitalEntry) => void,
+    observeOptions?: Record<string, unknown>
+  ) {
+    try {
+      const observer = new PerformanceObserver((list) =>
+        list.getEntries().forEach(onEntry)
+      );
+      observer.observe(
+        Object.assign({ type: type, buffered: true }, observeOptions)
+      );
+    } catch {}
+  }
+
+  if (CONFIG.webVitals && "PerformanceObserver" in window) {
+    observeVital("largest-contentful-paint", (entry) => {
+      vitals.lcp = Math.round(entry.startTime);
+    });
+    // CLS is the largest burst of shifts less than 1s apart, within 5s
+    observeVital("layout-shift", (entry) => {
+      if (entry.hadRecentInput) return;
+      if (
+        clsWindow &&
+        (entry.startTime - clsLastShift > 1000 ||
+          entry.startTime - clsWindowStart > 5000)
+      ) {
+        clsWindow = 0;
+      }
+      if (!clsWindow) clsWindowStart = entry.startTime;
+      clsWindow += entry.value || 0;
+      clsLastShift = entry.startTime;
+      vitals.cls = Math.max(
+        vitals.cls || 0,
+        Math.round(clsWindow * 1000) / 1000
+      );
+    });
+    observeVital(
+      "event",
+      (entry) => {
+        if (!entry.interactionId) return;
+        interactions.set(
+          entry.interactionId,
+          Math.max(interactions.get(entry.interactionId) || 0, entry.duration)
+        );
+      },
+      { durationThreshold: 40 }
+    );
+  }
+
+  function getWebVitals(): EventData {
+    if (!CONFIG.webVitals || sessionId !== VITALS_SESSION) return {};
+    const result = Object.assign({}, vitals);
+    if (interactions.size) {
+      // INP: the slowest interaction, skipping one outlier per 50
+      const durations = Array.from(interactions.values()).sort((a, b) => b - a);
+      result.inp = Math.round(
+        durations[
+          Math.min(durations.length - 1, Math.floor(durations.length / 50))
+        ]
+      );
+    }
+    return Object.keys(result).length ? { webVitals: result } : {};
+  }
+
+  // Scroll-back tracking: a run of upward scrolling of at least
+  // BACK_SCROLL_MIN percent is a back-scroll from where it turned to where
+  // it stopped. Re-readers and lost visitors both show up here.
+  const BACK_SCROLL_MIN = 5;
+  const MAX_BACK_SCROLLS = 20;
+  let lastDepth = 0;
+  let turnDepth = 0;
+  let scrollingUp = false;
+  let backScrolls: BackScroll[] = [];
+  let backScrollCount = 0;
+  let backScrollDistance = 0;
+
+  function trackDirection(depth: number) {
+    if (depth === lastDepth) return;
+    const up = depth < lastDepth;
+    if (up !== scrollingUp) {
+      if (scrollingUp) endBackScroll(lastDepth);
+      turnDepth = lastDepth;
+      scrollingUp = up;
+    }
+    lastDepth = depth;
+  }
+
+  function endBackScroll(to: number) {
+    const distance = turnDepth - to;
+    if (distance < BACK_SCROLL_MIN) return;
+    backScrollCount++;
+    backScrollDistance += distance;
+    if (backScrolls.length < MAX_BACK_SCROLLS) {
+      backScrolls.push({ from: turnDepth, to: to });
+    }
+    summarySent = false;
+  }
+
+  function resetDirection() {
+    lastDepth = 0;
+    turnDepth = 0;
+    scrollingUp = false;
+    backScrolls = [];
+    backScrollCount = 0;
+    backScrollDistance = 0;
+  }
+
+  // Includes a back-scroll still in progress without ending it
+  function getBackScrollSummary() {
+    const pending = scrollingUp && turnDepth - lastDepth >= BACK_SCROLL_MIN;
+    const distance = backScrollDistance + (pending ? turnDepth - lastDepth : 0);
+    const list =
+      pending && backScrolls.length < MAX_BACK_SCROLLS
+        ? backScrolls.concat([{ from: turnDepth, to: lastDepth }])
+        : backScrolls;
+    return {
+      backScrollCount: backScrollCount + (pending ? 1 : 0),
+      backScrolls: list,
+      // Share of the content reached that was scrolled back over
+      reReadScore: Math.min(
+        100,
+        Math.round((distance / Math.max(maxDepth, 1)) * 100)
+      ),
+    };
+  }
+
+  function onScroll() {
+    if (ticking) return;
+    ticking = true;
+    window.requestAnimationFrame(() => {
+      const depth = getScrollDepth();
+      trackDirection(depth);
+      recordDwell();
+      if (depth > maxDepth) {
+        maxDepth = depth;
+        summarySent = false;
+        observeSections();
+        trackScroll(maxDepth);
+        dispatch("scrollsensie:depth", {
+          depth: maxDepth,
+          sessionId: sessionId,
+        });
+        for (const m of MILESTONES) {
+          if (maxDepth >= m && !fired.has(m)) {
+            fired.add(m);
+            trackMilestone(m);
+          }
+        }
+      }
+      ticking = false;
+    });
+  }
+
+  // Click tracking: elements marked data-scrollsensie-cta are always
+  // reported, links to other hosts only with CONFIG.trackOutboundLinks.
+  // Outbound URLs are cut to origin and path so query strings stay private.
+  function getLabel(el: Element) {
+    return getText(el).replace(/\s+/g, " ").trim().slice(0, 100);
+  }
+
+  function trackClick(kind: string, target: string, el: Element) {
+    send("click", {
+      kind: kind,
+      target: target.slice(0, 200),
+      label: getLabel(el),
+      scrollDepth: getScrollDepth(),
+      timeOnPage: Date.now() - startTime,
+    });
+    // The click may navigate away, so deliver it straight away
+    flush(true);
+  }
+
+  function onClick(event: Event) {
+    const el = event.target as Element | null;
+    if (!el || !el.closest) return;
+    const cta = el.closest("[data-scrollsensie-cta]");
+    if (cta) {
+      trackClick(
+        "cta",
+        cta.getAttribute("data-scrollsensie-cta") || getLabel(cta) || "cta",
+        cta
+      );
+      return;
+    }
+    if (!CONFIG.trackOutboundLinks) return;
+    const link = el.closest("a[href]") as HTMLAnchorElement | null;
+    if (!link) return;
+    let url: URL;
+    try {
+      url = new URL(link.href, window.location.href);
+    } catch {
+      return;
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") return;
+    if (url.host === window.location.host) return;
+    trackClick("outbound", url.origin + url.pathname, link);
+  }
+
+  // Track page visibility changes; hiding the tab is the last reliable
+  // moment to report on mobile, where unload events often never fire
+  document.addEventListener("visibilitychange", () => {
+    isPageActive = !document.hidden;
+    if (document.visibilityState === "hidden") {
+      markIdle();
+      pauseSections();
+      sendSessionEnd();
+    } else {
+      markActive();
+      resumeSections();
+      summarySent = false;
+    }
+  });
+  window.addEventListener("pagehide", sendSessionEnd);
+
+  // Single-page apps change the URL without reloading the script, so each
+  // client-side navigation closes the current page view and starts a new one
+  function stripHash(url: string) {
+    return url.split("#")[0];
+  }
+
+  function startPageView(url?: string) {
+    sessionId = randomId();
+    sampled = inSample(sessionId);
+    pageUrl = url || window.location.href;
+    maxDepth = 0;
+    fired.clear();
+    startTime = Date.now();
+    scrollEvents = [];
+    summarySent = false;
+    markIdle();
+    activeTime = 0;
+    markActive();
+    resetSections();
+    resetDirection();
+    scrollContainer = null;
+    resetDwell();
+    send("pageview", { scrollDepth: 0, ...ATTRIBUTION });
+    // Let the router render the new page before measuring it
+    setTimeout(() => {
+      observeSections();
+      onScroll();
+    }, 0);
+  }
+
+  function onNavigate() {
+    if (stripHash(window.location.href) === stripHash(pageUrl)) return;
+    sendSessionEnd();
+    startPageView();
+  }
+
+  if (CONFIG.spa) {
+    (["pushState", "replaceState"] as const).forEach((method) => {
+      const original = history[method];
+      if (typeof original !== "function") return;
+      history[method] = function (
+        this: History,
+        ...args: Parameters<History["pushState"]>
+      ) {
+        const result = original.apply(this, args);
+        try {
+          onNavigate();
+        } catch {}
+        return result;
+      };
+    });
+    window.addEventListener("popstate", onNavigate);
+  }
+
+  // Custom properties and traits are limited to a few short primitive
+  // values; the server enforces the same limits
+  const MAX_PROPERTIES = 20;
+
+  function cleanProperties(props: unknown): Properties {
+    const clean: Properties = {};
+    if (!props || typeof props !== "object") return clean;
+    const source = props as Record<string, unknown>;
+    Object.keys(source)
+      .slice(0, MAX_PROPERTIES)
+      .forEach((key) => {
+        const value = source[key];
+        const name = String(key).slice(0, 40);
+        if (typeof value === "string") clean[name] = value.slice(0, 200);
+        else if (typeof value === "number" && isFinite(value)) {
+          clean[name] = value;
+        } else if (typeof value === "boolean") {
+          clean[name] = value;
+        } else if (value === null) {
+          clean[name] = null;
+        }
+      });
+    return clean;
+  }
+
+  // Anonymous traits are kept with the visitor ID, so they rotate with it
+  const TRAITS_KEY = "scrollsensie_traits";
+  let traits: Properties | null = null;
+  if (consentState === "granted") {
+    try {
+      const stored = JSON.parse(localStorage.getItem(TRAITS_KEY) || "null");
+      if (stored && stored.visitorId === visitorId) traits = stored.traits;
+    } catch {}
+  }
+
+  function saveTraits() {
+    if (consentState !== "granted" || !traits) return;
+    try {
+      localStorage.setItem(
+        TRAITS_KEY,
+        JSON.stringify({ visitorId: visitorId, traits: traits })
+      );
+    } catch {}
+  }
+
+  // A/B tests: the experiment and variant options (data-experiment and
+  // data-variant on the embed), the same attributes on any element of the
+  // page, or scrollsensie.setVariant() tag every event
+  const OPTION_EXPERIMENT = options.experiment || attr("data-experiment");
+  const OPTION_VARIANT = options.variant || attr("data-variant");
+  let variantOverride: Variant | null = null;
+
+  function getVariant(): Partial<Variant> {
+    let experiment = OPTION_EXPERIMENT;
+    let variant = OPTION_VARIANT;
+    if (variantOverride) {
+      experiment = variantOverride.experiment;
+      variant = variantOverride.variant;
+    } else if (!experiment || !variant) {
+      const el = document.querySelector("[data-experiment][data-variant]");
+      if (!el) return {};
+      experiment = el.getAttribute("data-experiment");
+      variant = el.getAttribute("data-variant");
+    }
+    if (!experiment || !variant) return {};
+    return {
+      experiment: String(experiment).slice(0, 64),
+      variant: String(variant).slice(0, 64),
+    };
+  }
+
+  // Manual hook for routers whose navigation can't be detected
+  api.pageview = function () {
+    sendSessionEnd();
+    startPageView();
+  };
+
+  // Virtual page views, e.g. steps of a wizard that keep the same URL
+  api.setPage = function (url) {
+    let resolved: string;
+    try {
+      resolved = new URL(String(url), window.location.href).href;
+    } catch {
+      return;
+    }
+    sendSessionEnd();
+    startPageView(resolved);
+  };
+
+  api.track = function (name, props) {
+    if (typeof name !== "string" || !name) return;
+    send("custom", {
+      name: name.slice(0, 64),
+      properties: cleanProperties(props),
+      scrollDepth: maxDepth,
+      timeOnPage: Date.now() - startTime,
+    });
+  };
+
+  // setVariant(experiment, variant) overrides the page's attributes;
+  // setVariant(null) goes back to them
+  api.setVariant = function (experiment, variant) {
+    variantOverride =
+      experiment && variant
+        ? { experiment: experiment, variant: variant }
+        : null;
+  };
+
+  api.identify = function (anonymousTraits) {
+    traits = Object.assign({}, traits, cleanProperties(anonymousTraits));
+    saveTraits();
+  };
+
+  api.consent = function (granted) {
+    if (!granted) {
+      // Declined: drop everything held so far and stay silent
+      consentState = "denied";
+      queue = [];
+      if (flushTimer) clearTimeout(flushTimer);
+      return;
+    }
+    if (consentState === "granted") return;
+    consentState = "granted";
+    // Switch the in-memory visitor ID for the stored one, including on
+    // events buffered while consent was pending
+    const storedId = getVisitorId();
+    queue.forEach((event) => {
+      event.visitorId = storedId;
+    });
+    visitorId = storedId;
+    saveTraits();
+    flush();
+    retryFailed();
+  };
+
+  // Persistent opt-out: stop reporting now and on every later page load
+  api.optOut = function () {
+    optedOut = true;
+    queue = [];
+    if (flushTimer) clearTimeout(flushTimer);
+    clearTimeout(retryTimer);
+    try {
+      localStorage.setItem(OPT_OUT_KEY, "1");
+      [VISITOR_KEY, RETRY_KEY, TRAITS_KEY].forEach((key) =>
+        localStorage.removeItem(key)
+      );
+    } catch {}
+  };
+
+  send("pageview", { scrollDepth: 0, ...ATTRIBUTION });
+  retryFailed();
+  observeSections();
+  markActive();
+  [
+    "scroll",
+    "wheel",
+    "keydown",
+    "pointerdown",
+    "pointermove",
+    "touchstart",
+  ].forEach((type) => {
+    window.addEventListener(type, markActive, { passive: true });
+  });
+  window.addEventListener("scroll", onScroll, { passive: true });
+  if (CONTAINER_SELECTOR) {
+    // Element scroll events don't bubble, so listen during capture
+    document.addEventListener("scroll", onScroll, {
+      passive: true,
+      capture: true,
+    });
+  }
+  window.addEventListener("resize", onScroll);
+  document.addEventListener("click", onClick, true);
+  document.addEventListener("readystatechange", () => {
+    if (document.readyState === "complete") {
+      observeSections();
+      onScroll();
+    }
+  });
+
+  return api;
+}
@@ -0,0 +1,76 @@
+import {
+  ConsentMode,
+  ScrollSensieApi,
+  TrackerSettings,
+  startTracker,
+} from "./core";
+
+export {
+  DEPTH_EVENT,
+  MILESTONE_EVENT,
+  startTracker,
+  type ConsentMode,
+  type DepthEventDetail,
+  type Properties,
+  type PropertyValue,
+  type ScrollSensieApi,
+  type TrackerOptions,
+  type TrackerSettings,
+} from "./core";
+
+// Same defaults as trackers without stored settings get from /api/tracker.js
+export const DEFAULT_SETTINGS: TrackerSettings = {
+  milestones: [25, 50, 75, 100],
+  sampleRate: 1,
+  spa: true,
+  respectPrivacySignals: false,
+  trackOutboundLinks: false,
+  webVitals: false,
+  contentSelector: "",
+};
+
+export type InitOptions = {
+  trackerId: string;
+  // Origin of the ScrollSensie deployment; defaults to the page's origin
+  host?: string;
+  // Overrides for the settings stored with the tracker
+  settings?: Partial<TrackerSettings>;
+  consent?: ConsentMode;
+  scrollContainer?: string;
+  experiment?: string;
+  variant?: string;
+};
+
+// Fetch the tracker's stored settings, the same ones the hosted script is
+// built with. Falls back to the defaults when the server can't be reached.
+export async function loadSettings(
+  trackerId: string,
+  host: string
+): Promise<TrackerSettings> {
+  try {
+    const url = new URL("/api/tracker.js", host);
+    url.searchParams.set("id", trackerId);
+    url.searchParams.set("format", "json");
+    const res = await fetch(url.toString());
+    if (!res.ok) return DEFAULT_SETTINGS;
+    return { ...DEFAULT_SETTINGS, ...(await res.json()) };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+// Start tracking with the tracker's stored settings. Resolves to the same
+// API the hosted script exposes as window.scrollsensie.
+export async function init(options: InitOptions): Promise<ScrollSensieApi> {
+  const host = options.host || window.location.origin;
+  const stored = await loadSettings(options.trackerId, host);
+  return startTracker({
+    trackerId: options.trackerId,
+    endpoint: new URL("/api/track", host).toString(),
+    settings: { ...stored, ...options.settings },
+    consent: options.consent,
+    scrollContainer: options.scrollContainer,
+    experiment: options.experiment,
+    variant: options.variant,
+  });
+}
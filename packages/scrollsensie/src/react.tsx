@@ -0,0 +1,57 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { DEPTH_EVENT, DepthEventDetail, InitOptions, init } from "./index";
+
+export type ScrollSensieProps = InitOptions;
+
+// Drop-in tracker for React apps. Renders nothing; mount it once, e.g. in
+// the root layout. Later mounts reuse the tracker already running.
+export function ScrollSensie(props: ScrollSensieProps) {
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+    init(props);
+    // Options are read once: the tracker lives as long as the page
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  return null;
+}
+
+function useDepthEvents(onDepth: (detail: DepthEventDetail) => void) {
+  const handler = useRef(onDepth);
+  handler.current = onDepth;
+
+  useEffect(() => {
+    const listener = (event: Event) =>
+      handler.current((event as CustomEvent<DepthEventDetail>).detail);
+    window.addEventListener(DEPTH_EVENT, listener);
+    return () => window.removeEventListener(DEPTH_EVENT, listener);
+  }, []);
+}
+
+// Call `callback` the first time a page view is scrolled to `percent`.
+// Page views start over on SPA navigation, so it can fire again then.
+export function useScrollMilestone(
+  percent: number,
+  callback: (depth: number) => void
+) {
+  const firedFor = useRef<string | null>(null);
+
+  useDepthEvents(({ depth, sessionId }) => {
+    if (depth < percent || firedFor.current === sessionId) return;
+    firedFor.current = sessionId;
+    callback(depth);
+  });
+}
+
+// Maximum scroll depth of the current page view, in percent
+export function useScrollDepth(): number {
+  const [depth, setDepth] = useState(0);
+
+  useDepthEvents((detail) => setDepth(detail.depth));
+
+  return depth;
+}
@@ -0,0 +1,13 @@
+import { defineConfig } from "tsup";
+
+// Bundled rather than compiled file by file, so the output loads under
+// Node's ESM loader while the source keeps the extensionless imports the
+// app's own build (Turbopack) resolves
+export default defineConfig({
+  entry: ["src/index.ts", "src/react.tsx"],
+  format: ["esm"],
+  target: "es2018",
+  dts: true,
+  clean: true,
+  external: ["react"],
+});
@@ -0,0 +1,10 @@
+-- Add content length and reading time columns to scroll_events table
+ALTER TABLE public.scroll_events
+ADD COLUMN IF NOT EXISTS document_height INTEGER,
+ADD COLUMN IF NOT EXISTS word_count INTEGER,
+ADD COLUMN IF NOT EXISTS expected_read_time INTEGER;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.scroll_events.document_height IS 'Rendered height in pixels of the document or scroll container (session_end events only)';
+COMMENT ON COLUMN public.scroll_events.word_count IS 'Words in the main content element (session_end events only)';
+COMMENT ON COLUMN public.scroll_events.expected_read_time IS 'Expected reading time in milliseconds for word_count at 230 words per minute, computed server-side (session_end events only)';
@@ -0,0 +1,44 @@
+-- Daily counts of events /api/track refused, per tracker, reason and host
+CREATE TABLE IF NOT EXISTS public.rejected_events (
+  tracker_id TEXT NOT NULL REFERENCES public.trackers(id) ON DELETE CASCADE,
+  day DATE NOT NULL DEFAULT CURRENT_DATE,
+  reason TEXT NOT NULL,
+  host TEXT NOT NULL,
+  count BIGINT NOT NULL DEFAULT 0,
+  PRIMARY KEY (tracker_id, day, reason, host)
+);
+
+ALTER TABLE public.rejected_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view rejected events for their trackers" ON public.rejected_events
+  FOR SELECT USING (
+    tracker_id IN (
+      SELECT id FROM public.trackers WHERE user_id = auth.uid()
+    )
+  );
+
+-- Add to today's count in one statement, so concurrent requests don't lose
+-- increments. Only the service role may call it.
+CREATE OR REPLACE FUNCTION public.record_rejected_events(
+  p_tracker_id TEXT,
+  p_reason TEXT,
+  p_host TEXT,
+  p_count INTEGER
+) RETURNS VOID
+LANGUAGE sql
+AS $$
+  INSERT INTO public.rejected_events (tracker_id, day, reason, host, count)
+  VALUES (p_tracker_id, CURRENT_DATE, p_reason, left(p_host, 253), p_count)
+  ON CONFLICT (tracker_id, day, reason, host)
+  DO UPDATE SET count = public.rejected_events.count + EXCLUDED.count;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_rejected_events(TEXT, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_rejected_events_tracker_day ON public.rejected_events(tracker_id, day DESC);
+
+-- Add comments for documentation
+COMMENT ON TABLE public.rejected_events IS 'Events refused by /api/track, counted per tracker, day, reason and host';
+COMMENT ON COLUMN public.rejected_events.reason IS 'Why the events were refused: origin (host not in the tracker''s allowedOrigins setting)';
+COMMENT ON COLUMN public.rejected_events.host IS 'Origin, Referer or page URL host the events came from';
@@ -0,0 +1,38 @@
+-- Add sample rate column to scroll_events table
+ALTER TABLE public.scroll_events
+ADD COLUMN IF NOT EXISTS sample_rate REAL NOT NULL DEFAULT 1 CHECK (sample_rate > 0 AND sample_rate <= 1);
+
+-- Scale the per page dwell totals by sample rate: each kept session stands
+-- in for 1 / sample_rate sessions
+DROP VIEW IF EXISTS public.page_dwell_histograms;
+CREATE VIEW public.page_dwell_histograms
+WITH (security_invoker = true) AS
+WITH latest AS (
+  SELECT DISTINCT ON (session_id) session_id, tracker_id, page_url, dwell_histogram, sample_rate
+  FROM public.scroll_events
+  WHERE event_type = 'session_end'
+    AND session_id IS NOT NULL
+    AND dwell_histogram IS NOT NULL
+  ORDER BY session_id, occurred_at DESC
+),
+bands AS (
+  SELECT
+    tracker_id,
+    regexp_replace(page_url, '^[a-zA-Z]+://([^?#]*).*$', '\1') AS page,
+    band,
+    ROUND(SUM(ms / sample_rate))::BIGINT AS total_ms,
+    ROUND(SUM(1 / sample_rate))::BIGINT AS sessions
+  FROM latest, unnest(dwell_histogram) WITH ORDINALITY AS h(ms, band)
+  GROUP BY tracker_id, page, band
+)
+SELECT
+  tracker_id,
+  page,
+  MAX(sessions) AS sessions,
+  array_agg(total_ms ORDER BY band) AS dwell
+FROM bands
+GROUP BY tracker_id, page;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.scroll_events.sample_rate IS 'Share of sessions the tracker kept when this event was recorded; dashboard totals are scaled by 1 / sample_rate';
+COMMENT ON VIEW public.page_dwell_histograms IS 'Summed dwell_histogram per tracker and page (host and path) across sessions, scaled up by sample rate';
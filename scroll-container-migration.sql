@@ -0,0 +1,6 @@
+-- Add scroll container to scroll_events table
+ALTER TABLE public.scroll_events
+ADD COLUMN IF NOT EXISTS scroll_container TEXT;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.scroll_events.scroll_container IS 'data-scroll-container selector depth was measured against; NULL for the window';
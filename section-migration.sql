@@ -0,0 +1,17 @@
+-- Add section visibility columns to scroll_events table
+ALTER TABLE public.scroll_events
+ADD COLUMN IF NOT EXISTS section_name TEXT,
+ADD COLUMN IF NOT EXISTS visible_time INTEGER;
+
+ALTER TABLE public.scroll_events
+DROP CONSTRAINT IF EXISTS scroll_events_event_type_check;
+ALTER TABLE public.scroll_events
+ADD CONSTRAINT scroll_events_event_type_check
+CHECK (event_type IN ('pageview', 'scroll', 'milestone', 'session_end', 'section'));
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_scroll_events_section ON public.scroll_events(tracker_id, section_name) WHERE event_type = 'section';
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.scroll_events.section_name IS 'Value of the data-scrollsensie-section attribute (section events only)';
+COMMENT ON COLUMN public.scroll_events.visible_time IS 'Time the section was visible in an active tab (milliseconds, section events only)';
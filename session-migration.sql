@@ -0,0 +1,12 @@
+-- Add anonymous visitor and session identifiers to scroll_events table
+ALTER TABLE public.scroll_events
+ADD COLUMN IF NOT EXISTS session_id TEXT,
+ADD COLUMN IF NOT EXISTS visitor_id TEXT;
+
+-- Add indexes for per-session and per-visitor queries
+CREATE INDEX IF NOT EXISTS idx_scroll_events_session_id ON public.scroll_events(session_id);
+CREATE INDEX IF NOT EXISTS idx_scroll_events_tracker_visitor ON public.scroll_events(tracker_id, visitor_id);
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.scroll_events.session_id IS 'Random ID generated by the tracker script for each page view';
+COMMENT ON COLUMN public.scroll_events.visitor_id IS 'First-party anonymous visitor ID, rotated by the tracker script every 30 days';
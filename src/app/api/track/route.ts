@@ -1,10 +1,27 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { supabaseAdmin } from "@/lib/supabase";
+import { expectedReadingTime } from "@/lib/reading";
+import { normalizeAttribution } from "@/lib/attribution";
+import { hostFromUrl, isHostAllowed } from "@/lib/origins";
+import { BotSignals, detectBot } from "@/lib/bots";
+import { hashIp } from "@/lib/ip-hash";
+import { GeoLocation, lookupLocation } from "@/lib/geoip";
+import {
+  MIN_SAMPLE_RATE,
+  TrackerSettings,
+  parseTrackerSettings,
+} from "@/lib/tracker-settings";
+import {
+  checkRateLimit,
+  getClientIp,
+  getRateLimitStore,
+} from "@/lib/rate-limit";
 
 // CORS helper function
 function getCorsHeaders(origin?: string | null) {
-  // Allow all origins for the tracking script to work on any website
+  // Allow all origins: preflights don't say which tracker they are for, so
+  // each tracker's allowed origins are enforced per event in POST instead
   return {
     "Access-Control-Allow-Origin": "*",
     "Access-Control-Allow-Methods": "POST, OPTIONS, GET",
@@ -15,69 +32,347 @@ function getCorsHeaders(origin?: string | null) {
   };
 }
 
-// IP Geolocation function
-async function getLocationFromIP(ip: string) {
-  try {
-    // Use a free IP geolocation service
-    const response = await fetch(
-      `http://ip-api.com/json/${ip}?fields=status,country,countryCode,region,regionName,city,timezone,isp,query`
-    );
-    const data = await response.json();
-
-    if (data.status === "success") {
-      return {
-        country: data.countryCode,
-        countryName: data.country,
-        region: data.regionName,
-        city: data.city,
-        timezone: data.timezone,
-        isp: data.isp,
-        ip: data.query,
-      };
-    }
-  } catch (error) {
-    console.error("Error fetching location:", error);
-  }
+// Anonymous IDs generated by the tracker script (hex, no dashes)
+const anonymousIdSchema = z
+  .string()
+  .min(8)
+  .max(64)
+  .regex(/^[a-zA-Z0-9]+$/);
 
-  // Fallback to mock data
-  return {
-    country: "NP",
-    countryName: "Nepal",
-    region: "Bagmati",
-    city: "Kathmandu",
-    timezone: "Asia/Kathmandu",
-    isp: "Unknown",
-    ip: ip,
-  };
-}
+const engagementSchema = z.object({
+  timeOnPage: z.number().int().min(0),
+  maxDepth: z.number().min(0).max(100),
+  scrollEvents: z.number().int().min(0),
+  avgScrollSpeed: z.number().min(0),
+});
+
+// Custom event properties and visitor traits: a small flat object of short
+// primitive values
+const propertiesSchema = z
+  .record(
+    z.string().min(1).max(40),
+    z.union([z.string().max(200), z.number(), z.boolean(), z.null()])
+  )
+  .refine((props) => Object.keys(props).length <= 20, {
+    message: "At most 20 properties are allowed",
+  })
+  .refine((props) => JSON.stringify(props).length <= 2048, {
+    message: "Properties must be at most 2KB",
+  });
 
-const trackEventSchema = z.object({
+// Fields shared by every event type
+const baseEventSchema = z.object({
   trackerId: z.string().min(8).max(64),
-  scrollDepth: z.number().min(0).max(100),
+  sessionId: anonymousIdSchema.optional(),
+  visitorId: anonymousIdSchema.optional(),
   pageUrl: z.string().url(),
   timestamp: z.number().int().positive(),
+  traits: propertiesSchema.optional(),
+  container: z.string().min(1).max(200).optional(),
+  experiment: z.string().min(1).max(64).optional(),
+  variant: z.string().min(1).max(64).optional(),
+  sampleRate: z.number().min(MIN_SAMPLE_RATE).max(1).optional(),
+  device: z
+    .object({
+      ua: z.string().max(512).optional(),
+      // Zero-size viewports are accepted so they can be flagged as bots
+      width: z.number().int().min(0).max(20000).optional(),
+      height: z.number().int().min(0).max(20000).optional(),
+      webdriver: z.boolean().optional(),
+    })
+    .partial()
+    .optional(),
+});
+
+const pageviewEventSchema = baseEventSchema.extend({
+  type: z.literal("pageview"),
+  scrollDepth: z.number().min(0).max(100).optional(),
+  referrer: z.string().max(500).optional(),
+  utm: z
+    .object({
+      source: z.string().max(100).optional(),
+      medium: z.string().max(100).optional(),
+      campaign: z.string().max(100).optional(),
+    })
+    .optional(),
+});
+
+const scrollEventSchema = baseEventSchema.extend({
+  type: z.literal("scroll"),
+  scrollDepth: z.number().min(0).max(100),
+  timeOnPage: z.number().int().min(0).optional(),
+});
+
+const milestoneEventSchema = baseEventSchema.extend({
+  type: z.literal("milestone"),
+  milestone: z.number().int().min(1).max(100),
+  scrollDepth: z.number().min(0).max(100),
   timeOnPage: z.number().int().min(0).optional(),
-  totalTimeOnPage: z.number().int().min(0).optional(),
+  activeTime: z.number().int().min(0).optional(),
   maxScrollDepth: z.number().min(0).max(100).optional(),
   scrollEvents: z.number().int().min(0).optional(),
-  engagement: z
-    .object({
-      timeOnPage: z.number().int().min(0),
-      maxDepth: z.number().min(0).max(100),
-      scrollEvents: z.number().int().min(0),
-      avgScrollSpeed: z.number().min(0),
-    })
+  engagement: engagementSchema.optional(),
+});
+
+const sessionEndEventSchema = baseEventSchema.extend({
+  type: z.literal("session_end"),
+  totalTimeOnPage: z.number().int().min(0),
+  activeTime: z.number().int().min(0).optional(),
+  maxScrollDepth: z.number().min(0).max(100),
+  scrollEvents: z.number().int().min(0).optional(),
+  engagement: engagementSchema.optional(),
+  backScrollCount: z.number().int().min(0).optional(),
+  backScrolls: z
+    .array(
+      z.object({
+        from: z.number().min(0).max(100),
+        to: z.number().min(0).max(100),
+      })
+    )
+    .max(20)
     .optional(),
-  device: z
+  reReadScore: z.number().int().min(0).max(100).optional(),
+  documentHeight: z.number().int().min(0).optional(),
+  wordCount: z.number().int().min(0).optional(),
+  dwell: z.array(z.number().int().min(0)).length(20).optional(),
+  webVitals: z
     .object({
-      ua: z.string().max(512).optional(),
-      width: z.number().int().positive().max(20000).optional(),
-      height: z.number().int().positive().max(20000).optional(),
+      lcp: z.number().int().min(0).max(600000).optional(),
+      cls: z.number().min(0).max(100).optional(),
+      inp: z.number().int().min(0).max(600000).optional(),
     })
-    .partial()
     .optional(),
 });
 
+const sectionEventSchema = baseEventSchema.extend({
+  type: z.literal("section"),
+  section: z.string().min(1).max(100),
+  scrollDepth: z.number().min(0).max(100),
+  timeOnPage: z.number().int().min(0),
+  visibleTime: z.number().int().min(0),
+});
+
+const customEventSchema = baseEventSchema.extend({
+  type: z.literal("custom"),
+  name: z
+    .string()
+    .min(1)
+    .max(64)
+    .regex(/^[\w.:\- ]+$/),
+  properties: propertiesSchema.optional(),
+  scrollDepth: z.number().min(0).max(100).optional(),
+  timeOnPage: z.number().int().min(0).optional(),
+});
+
+const clickEventSchema = baseEventSchema.extend({
+  type: z.literal("click"),
+  kind: z.enum(["cta", "outbound"]),
+  target: z.string().min(1).max(200),
+  label: z.string().max(100).optional(),
+  scrollDepth: z.number().min(0).max(100),
+  timeOnPage: z.number().int().min(0),
+});
+
+// Scripts cached before event types existed send untyped payloads: a missing
+// scrollDepth was the unload summary, anything else a plain scroll update
+function withLegacyType(body: unknown) {
+  if (!body || typeof body !== "object" || "type" in body) return body;
+  return {
+    ...body,
+    type: "scrollDepth" in body ? "scroll" : "session_end",
+  };
+}
+
+const trackEventSchema = z.preprocess(
+  withLegacyType,
+  z.discriminatedUnion("type", [
+    pageviewEventSchema,
+    scrollEventSchema,
+    milestoneEventSchema,
+    sessionEndEventSchema,
+    sectionEventSchema,
+    customEventSchema,
+    clickEventSchema,
+  ])
+);
+
+type TrackEvent = z.infer<typeof trackEventSchema>;
+
+const MAX_BATCH_SIZE = 100;
+
+// Requests per minute from one IP address across all trackers, checked
+// before any parsing or database work; 0 turns the limit off
+const REQUESTS_PER_IP = Number(process.env.RATE_LIMIT_REQUESTS_PER_IP ?? 120);
+
+function rateLimited(retryAfter: number, headers: Record<string, string>) {
+  return NextResponse.json(
+    { error: "Rate limit exceeded" },
+    {
+      status: 429,
+      headers: {
+        ...headers,
+        "Retry-After": String(retryAfter),
+        "Access-Control-Expose-Headers": "Retry-After",
+      },
+    }
+  );
+}
+
+// Map a validated event onto its scroll_events row
+function toEventRow(
+  event: TrackEvent,
+  settings: TrackerSettings,
+  ipHash: string | null,
+  location: GeoLocation | null
+) {
+  const botSignals: BotSignals = {
+    ua: event.device?.ua,
+    width: event.device?.width,
+    height: event.device?.height,
+    webdriver: event.device?.webdriver,
+  };
+  const row = {
+    tracker_id: event.trackerId,
+    event_type: event.type,
+    session_id: event.sessionId || null,
+    visitor_id: event.visitorId || null,
+    page_url: event.pageUrl,
+    occurred_at: new Date(event.timestamp).toISOString(),
+    scroll_depth: 0,
+    milestone: null as number | null,
+    section_name: null as string | null,
+    visible_time: null as number | null,
+    event_name: null as string | null,
+    properties: null as Record<string, unknown> | null,
+    click_kind: null as string | null,
+    click_target: null as string | null,
+    click_label: null as string | null,
+    referrer: null as string | null,
+    source: null as string | null,
+    medium: null as string | null,
+    campaign: null as string | null,
+    traits: event.traits || null,
+    scroll_container: event.container || null,
+    experiment: event.experiment || null,
+    variant: event.variant || null,
+    // The rate weights the event in totals, so the client can't claim one
+    // below the tracker's. Scripts cached from before the rate was raised
+    // are briefly undercounted rather than anyone inflating counts.
+    sample_rate: Math.max(
+      event.sampleRate ?? 1,
+      settings.sampleRate,
+      MIN_SAMPLE_RATE
+    ),
+    time_on_page: null as number | null,
+    total_time_on_page: null as number | null,
+    active_time: null as number | null,
+    max_scroll_depth: null as number | null,
+    scroll_events_count: null as number | null,
+    engagement_data: null as string | null,
+    back_scroll_count: null as number | null,
+    back_scrolls: null as { from: number; to: number }[] | null,
+    re_read_score: null as number | null,
+    document_height: null as number | null,
+    word_count: null as number | null,
+    expected_read_time: null as number | null,
+    dwell_histogram: null as number[] | null,
+    lcp: null as number | null,
+    cls: null as number | null,
+    inp: null as number | null,
+    ua: event.device?.ua || null,
+    viewport_w: event.device?.width || null,
+    viewport_h: event.device?.height || null,
+    ip_hash: ipHash,
+    country: location?.country || null,
+    region: location?.region || null,
+    bot_reason: detectBot(botSignals) as string | null,
+  };
+
+  switch (event.type) {
+    case "pageview": {
+      row.scroll_depth = event.scrollDepth || 0;
+      const attribution = normalizeAttribution(
+        event.pageUrl,
+        event.referrer,
+        event.utm
+      );
+      row.referrer = attribution.referrer;
+      row.source = attribution.source;
+      row.medium = attribution.medium;
+      row.campaign = attribution.campaign;
+      break;
+    }
+    case "scroll":
+      row.scroll_depth = event.scrollDepth;
+      row.time_on_page = event.timeOnPage || null;
+      break;
+    case "milestone":
+      row.scroll_depth = event.scrollDepth;
+      row.milestone = event.milestone;
+      row.time_on_page = event.timeOnPage || null;
+      row.total_time_on_page = event.timeOnPage || null;
+      row.active_time = event.activeTime ?? null;
+      row.max_scroll_depth = event.maxScrollDepth || null;
+      row.scroll_events_count = event.scrollEvents || null;
+      row.engagement_data = event.engagement
+        ? JSON.stringify(event.engagement)
+        : null;
+      break;
+    case "session_end":
+      // The summary's depth is the deepest point reached in the session
+      row.scroll_depth = event.maxScrollDepth;
+      row.total_time_on_page = event.totalTimeOnPage;
+      row.active_time = event.activeTime ?? null;
+      row.max_scroll_depth = event.maxScrollDepth;
+      row.back_scroll_count = event.backScrollCount ?? null;
+      row.back_scrolls = event.backScrolls || null;
+      row.re_read_score = event.reReadScore ?? null;
+      row.document_height = event.documentHeight ?? null;
+      row.word_count = event.wordCount ?? null;
+      row.expected_read_time =
+        event.wordCount != null ? expectedReadingTime(event.wordCount) : null;
+      row.dwell_histogram = event.dwell || null;
+      row.lcp = event.webVitals?.lcp ?? null;
+      row.cls = event.webVitals?.cls ?? null;
+      row.inp = event.webVitals?.inp ?? null;
+      // Only the summary knows how fast the whole page was covered
+      row.bot_reason = detectBot({
+        ...botSignals,
+        maxScrollDepth: event.maxScrollDepth,
+        totalTimeOnPage: event.totalTimeOnPage,
+        documentHeight: event.documentHeight,
+      });
+      row.scroll_events_count = event.scrollEvents || null;
+      row.engagement_data = event.engagement
+        ? JSON.stringify(event.engagement)
+        : null;
+      break;
+    case "section":
+      // Depth and time on page record when the section was first seen
+      row.scroll_depth = event.scrollDepth;
+      row.section_name = event.section;
+      row.time_on_page = event.timeOnPage;
+      row.visible_time = event.visibleTime;
+      break;
+    case "custom":
+      row.scroll_depth = event.scrollDepth || 0;
+      row.event_name = event.name;
+      row.properties = event.properties || {};
+      row.time_on_page = event.timeOnPage ?? null;
+      break;
+    case "click":
+      // Depth is where the visitor was when clicking, not the deepest point
+      row.scroll_depth = event.scrollDepth;
+      row.click_kind = event.kind;
+      row.click_target = event.target;
+      row.click_label = event.label || null;
+      row.time_on_page = event.timeOnPage;
+      break;
+  }
+
+  return row;
+}
+
 // Handle CORS preflight requests
 export async function OPTIONS(request: NextRequest) {
   const origin = request.headers.get("origin");
@@ -91,15 +386,31 @@ export async function OPTIONS(request: NextRequest) {
 export async function POST(request: NextRequest) {
   const origin = request.headers.get("origin");
   const corsHeaders = getCorsHeaders(origin);
+  const clientIp = getClientIp(request.headers);
+  const rateLimitStore = getRateLimitStore();
 
   try {
+    // Without a client address there's nothing to key per-IP limits on;
+    // lumping every such request together would throttle them all at once
+    const requestLimit = await checkRateLimit(
+      rateLimitStore,
+      `ip:${clientIp}`,
+      clientIp ? REQUESTS_PER_IP : 0
+    );
+    if (!requestLimit.allowed) {
+      return rateLimited(requestLimit.retryAfter, corsHeaders);
+    }
+
     const body = await request.json();
 
-    // Validate body
-    const parse = trackEventSchema.safeParse(body);
-    if (!parse.success) {
+    // The tracker script sends batches; a single event object is still
+    // accepted for older scripts and direct API use
+    const isBatch = Array.isArray(body);
+    const items: unknown[] = isBatch ? body : [body];
+
+    if (isBatch && (items.length === 0 || items.length > MAX_BATCH_SIZE)) {
       return NextResponse.json(
-        { error: "Invalid payload", details: parse.error.flatten() },
+        { error: `Batch must contain 1-${MAX_BATCH_SIZE} events` },
         {
           status: 400,
           headers: corsHeaders,
@@ -107,44 +418,153 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const {
-      trackerId,
-      scrollDepth,
-      pageUrl,
-      timestamp,
-      timeOnPage,
-      totalTimeOnPage,
-      maxScrollDepth,
-      scrollEvents,
-      engagement,
-      device,
-    } = parse.data;
-
-    // Validate tracker exists
-    const { data: tracker, error: trackerErr } = await supabaseAdmin
-      .from("trackers")
-      .select("id")
-      .eq("id", trackerId)
-      .maybeSingle();
-
-    if (trackerErr) {
-      console.error("Supabase error validating tracker:", trackerErr);
+    // Validate each event on its own so one bad event doesn't sink the batch
+    const valid: { index: number; event: TrackEvent }[] = [];
+    const rejected: { index: number; error: unknown }[] = [];
+
+    items.forEach((item, index) => {
+      const parse = trackEventSchema.safeParse(item);
+      if (parse.success) {
+        valid.push({ index, event: parse.data });
+      } else {
+        rejected.push({ index, error: parse.error.flatten() });
+      }
+    });
+
+    if (!isBatch && rejected.length > 0) {
       return NextResponse.json(
-        { error: "Server error" },
+        { error: "Invalid payload", details: rejected[0].error },
         {
-          status: 500,
-          headers: {
-            ...corsHeaders,
-          },
+          status: 400,
+          headers: corsHeaders,
         }
       );
     }
 
-    if (!tracker) {
+    // Validate trackers exist, with one lookup for the whole batch
+    const trackerIds = Array.from(new Set(valid.map((v) => v.event.trackerId)));
+    const settingsById = new Map<string, TrackerSettings>();
+
+    if (trackerIds.length > 0) {
+      const { data: trackers, error: trackerErr } = await supabaseAdmin
+        .from("trackers")
+        .select("id, settings")
+        .in("id", trackerIds);
+
+      if (trackerErr) {
+        console.error("Supabase error validating tracker:", trackerErr);
+        return NextResponse.json(
+          { error: "Server error" },
+          {
+            status: 500,
+            headers: {
+              ...corsHeaders,
+            },
+          }
+        );
+      }
+
+      trackers?.forEach((t) =>
+        settingsById.set(t.id, parseTrackerSettings(t.settings))
+      );
+    }
+
+    // Browsers always send Origin (or at least Referer) cross-origin; other
+    // clients can claim anything there, so the page URL is checked as well
+    const requestHost =
+      hostFromUrl(origin) || hostFromUrl(request.headers.get("referer"));
+    const blocked = new Map<
+      string,
+      { trackerId: string; host: string; count: number }
+    >();
+
+    const accepted = valid.filter(({ index, event }) => {
+      const settings = settingsById.get(event.trackerId);
+      if (!settings) {
+        rejected.push({ index, error: "Unknown trackerId" });
+        return false;
+      }
+      const patterns = settings.allowedOrigins;
+      if (patterns.length === 0) return true;
+
+      const pageHost = hostFromUrl(event.pageUrl) || "unknown";
+      let badHost: string | null = null;
+      if (requestHost && !isHostAllowed(requestHost, patterns)) {
+        badHost = requestHost;
+      } else if (!isHostAllowed(pageHost, patterns)) {
+        badHost = pageHost;
+      }
+      if (badHost === null) return true;
+
+      rejected.push({ index, error: "Origin not allowed" });
+      const key = `${event.trackerId} ${badHost}`;
+      const entry = blocked.get(key) || {
+        trackerId: event.trackerId,
+        host: badHost,
+        count: 0,
+      };
+      entry.count++;
+      blocked.set(key, entry);
+      return false;
+    });
+
+    // Count rejected events so tracker owners can see them; failing to
+    // count must not fail the request
+    if (blocked.size > 0) {
+      await Promise.all(
+        Array.from(blocked.values()).map(async (entry) => {
+          const { error } = await supabaseAdmin.rpc("record_rejected_events", {
+            p_tracker_id: entry.trackerId,
+            p_reason: "origin",
+            p_host: entry.host,
+            p_count: entry.count,
+          });
+          if (error) {
+            console.error("Supabase error counting rejected events:", error);
+          }
+        })
+      );
+    }
+
+    // Per-tracker limits, for the tracker as a whole and for this client.
+    // Batches are all-or-nothing here so the script can retry them whole.
+    const costs = new Map<string, number>();
+    accepted.forEach(({ event }) =>
+      costs.set(event.trackerId, (costs.get(event.trackerId) || 0) + 1)
+    );
+    let retryAfter = 0;
+    for (const [trackerId, cost] of Array.from(costs)) {
+      const settings = settingsById.get(trackerId);
+      const limits = await Promise.all([
+        checkRateLimit(
+          rateLimitStore,
+          `tracker:${trackerId}`,
+          settings.eventsPerMinute,
+          cost
+        ),
+        checkRateLimit(
+          rateLimitStore,
+          `tracker:${trackerId}:ip:${clientIp}`,
+          clientIp ? settings.eventsPerMinutePerIp : 0,
+          cost
+        ),
+      ]);
+      limits.forEach((limit) => {
+        if (!limit.allowed) {
+          retryAfter = Math.max(retryAfter, limit.retryAfter);
+        }
+      });
+    }
+    if (retryAfter > 0) {
+      return rateLimited(retryAfter, corsHeaders);
+    }
+
+    if (!isBatch && accepted.length === 0) {
+      const forbidden = blocked.size > 0;
       return NextResponse.json(
-        { error: "Unknown trackerId" },
+        { error: forbidden ? "Origin not allowed" : "Unknown trackerId" },
         {
-          status: 404,
+          status: forbidden ? 403 : 404,
           headers: {
             ...corsHeaders,
           },
@@ -152,37 +572,53 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Insert event
-    const { error: insertErr } = await supabaseAdmin
-      .from("scroll_events")
-      .insert({
-        tracker_id: trackerId,
-        scroll_depth: scrollDepth,
-        page_url: pageUrl,
-        occurred_at: new Date(timestamp).toISOString(),
-        time_on_page: timeOnPage || null,
-        total_time_on_page: totalTimeOnPage || null,
-        max_scroll_depth: maxScrollDepth || null,
-        scroll_events_count: scrollEvents || null,
-        engagement_data: engagement ? JSON.stringify(engagement) : null,
-        ua: device?.ua || null,
-        viewport_w: device?.width || null,
-        viewport_h: device?.height || null,
-        ip_address:
-          request.headers.get("x-forwarded-for") ||
-          request.headers.get("x-real-ip") ||
-          "unknown",
-      });
+    // Insert all accepted events at once
+    if (accepted.length > 0) {
+      // Resolved from the raw IP before it's discarded; only the hash and
+      // the location are stored
+      const location = await lookupLocation(clientIp);
+      const ipHashes = new Map<string, string | null>();
+      for (const trackerId of Array.from(costs.keys())) {
+        ipHashes.set(trackerId, await hashIp(clientIp, trackerId));
+      }
+
+      const { error: insertErr } = await supabaseAdmin
+        .from("scroll_events")
+        .insert(
+          accepted.map(({ event }) =>
+            toEventRow(
+              event,
+              settingsById.get(event.trackerId),
+              ipHashes.get(event.trackerId),
+              location
+            )
+          )
+        );
 
-    if (insertErr) {
-      console.error("Supabase error inserting event:", insertErr);
+      if (insertErr) {
+        console.error("Supabase error inserting events:", insertErr);
+        return NextResponse.json(
+          { error: "Server error" },
+          {
+            status: 500,
+            headers: {
+              ...corsHeaders,
+            },
+          }
+        );
+      }
+    }
+
+    if (isBatch) {
       return NextResponse.json(
-        { error: "Server error" },
         {
-          status: 500,
-          headers: {
-            ...corsHeaders,
-          },
+          accepted: accepted.length,
+          rejected: rejected.length,
+          errors: rejected.sort((a, b) => a.index - b.index),
+        },
+        {
+          status: accepted.length > 0 ? 200 : 400,
+          headers: corsHeaders,
         }
       );
     }
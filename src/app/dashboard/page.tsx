@@ -2,6 +2,31 @@
 
 import { useEffect, useMemo, useState } from "react";
 import { createClient } from "@supabase/supabase-js";
+import { sampleWeight, summarizeSessions, weightedCount } from "@/lib/sessions";
+import { summarizeSections } from "@/lib/sections";
+import { summarizeCustomEvents } from "@/lib/custom-events";
+import { summarizeBackScrolling } from "@/lib/back-scroll";
+import { summarizeReadCompletion } from "@/lib/reading";
+import { summarizeClicks } from "@/lib/clicks";
+import { summarizeBySource } from "@/lib/attribution";
+import { summarizeWebVitals } from "@/lib/web-vitals";
+import { PageDwell, mergePageDwell } from "@/lib/dwell";
+import { summarizeExperiments } from "@/lib/experiments";
+import { RejectedEventRow, summarizeRejections } from "@/lib/rejections";
+import { excludeBotTraffic } from "@/lib/bots";
+import { countryFlag, countryName } from "@/lib/countries";
+import { TrackerSettings, parseTrackerSettings } from "@/lib/tracker-settings";
+import { TrackerSettingsForm } from "@/components/TrackerSettingsForm";
+import { SectionVisibilityTable } from "@/components/SectionVisibilityTable";
+import { CustomEventsTable } from "@/components/CustomEventsTable";
+import { BackScrollTable } from "@/components/BackScrollTable";
+import { ReadCompletionTable } from "@/components/ReadCompletionTable";
+import { CtaClicksTable } from "@/components/CtaClicksTable";
+import { SourceBreakdownTable } from "@/components/SourceBreakdownTable";
+import { WebVitalsTable } from "@/components/WebVitalsTable";
+import { DwellHeatStrip } from "@/components/DwellHeatStrip";
+import { ExperimentsTable } from "@/components/ExperimentsTable";
+import { RejectedEventsTable } from "@/components/RejectedEventsTable";
 import { Line } from "react-chartjs-2";
 import {
   Chart as ChartJS,
@@ -32,9 +57,13 @@ export default function Dashboard() {
   const [session, setSession] = useState<any>(null);
   const [trackerId, setTrackerId] = useState("");
   const [trackers, setTrackers] = useState<any[]>([]);
-  const [events, setEvents] = useState<any[]>([]);
-  const [userStats, setUserStats] = useState<any[]>([]);
+  const [allEvents, setEvents] = useState<any[]>([]);
+  const [allUserStats, setUserStats] = useState<any[]>([]);
+  const [dwellPages, setDwellPages] = useState<PageDwell[]>([]);
+  const [rejectedEvents, setRejectedEvents] = useState<RejectedEventRow[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  // Traffic flagged as bots is left out of every panel unless included here
+  const [includeBots, setIncludeBots] = useState(false);
 
   // Device detection function
   function getDeviceType(ua: string, viewportW: number, viewportH: number) {
@@ -77,7 +106,7 @@ export default function Dashboard() {
     async function loadTrackers() {
       const { data, error } = await supabase
         .from("trackers")
-        .select("id, created_at")
+        .select("id, created_at, settings")
         .eq("user_id", session.user.id)
         .order("created_at", { ascending: false });
 
@@ -102,7 +131,12 @@ export default function Dashboard() {
 
     const interval = setInterval(async () => {
       setIsRefreshing(true);
-      await Promise.all([loadEvents(), loadUserStats()]);
+      await Promise.all([
+        loadEvents(),
+        loadUserStats(),
+        loadDwellHistograms(),
+        loadRejectedEvents(),
+      ]);
       setIsRefreshing(false);
     }, 10000);
 
@@ -197,12 +231,29 @@ export default function Dashboard() {
     // Refresh the trackers list
     const { data } = await supabase
       .from("trackers")
-      .select("id, created_at")
+      .select("id, created_at, settings")
       .eq("user_id", session.user.id)
       .order("created_at", { ascending: false });
     setTrackers(data || []);
   }
 
+  async function saveTrackerSettings(settings: TrackerSettings) {
+    const { error } = await supabase
+      .from("trackers")
+      .update({ settings })
+      .eq("id", trackerId)
+      .eq("user_id", session?.user?.id);
+
+    if (error) {
+      alert("Error saving settings: " + error.message);
+      return;
+    }
+
+    setTrackers((prev) =>
+      prev.map((t) => (t.id === trackerId ? { ...t, settings } : t))
+    );
+  }
+
   async function deleteTracker(trackerIdToDelete: string) {
     if (
       !confirm(
@@ -228,12 +279,14 @@ export default function Dashboard() {
       setTrackerId("");
       setEvents([]);
       setUserStats([]);
+      setDwellPages([]);
+      setRejectedEvents([]);
     }
 
     // Refresh the trackers list
     const { data } = await supabase
       .from("trackers")
-      .select("id, created_at")
+      .select("id, created_at, settings")
       .eq("user_id", session?.user?.id)
       .order("created_at", { ascending: false });
     setTrackers(data || []);
@@ -244,7 +297,7 @@ export default function Dashboard() {
     const { data, error } = await supabase
       .from("scroll_events")
       .select(
-        "occurred_at, scroll_depth, time_on_page, total_time_on_page, max_scroll_depth, scroll_events_count, engagement_data, ua, viewport_w, viewport_h"
+        "occurred_at, event_type, milestone, scroll_depth, page_url, section_name, visible_time, event_name, properties, click_kind, click_target, click_label, source, medium, campaign, experiment, variant, sample_rate, back_scroll_count, back_scrolls, re_read_score, document_height, word_count, expected_read_time, lcp, cls, inp, bot_reason, session_id, visitor_id, time_on_page, total_time_on_page, active_time, max_scroll_depth, scroll_events_count, engagement_data, ua, viewport_w, viewport_h"
       )
       .eq("tracker_id", trackerId)
       .order("occurred_at", { ascending: true })
@@ -256,11 +309,44 @@ export default function Dashboard() {
     setEvents(data || []);
   }
 
+  // Dwell histograms are summed per page by the page_dwell_histograms view
+  async function loadDwellHistograms() {
+    if (!trackerId) return;
+    const { data, error } = await supabase
+      .from("page_dwell_histograms")
+      .select("page, bot, sessions, dwell")
+      .eq("tracker_id", trackerId)
+      .order("sessions", { ascending: false });
+    if (error) {
+      console.error("Error loading dwell histograms:", error);
+      return;
+    }
+    setDwellPages(data || []);
+  }
+
+  // Daily counts of events /api/track refused for this tracker
+  async function loadRejectedEvents() {
+    if (!trackerId) return;
+    const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+    const { data, error } = await supabase
+      .from("rejected_events")
+      .select("day, reason, host, count")
+      .eq("tracker_id", trackerId)
+      .gte("day", since.toISOString().slice(0, 10));
+    if (error) {
+      console.error("Error loading rejected events:", error);
+      return;
+    }
+    setRejectedEvents(data || []);
+  }
+
   async function loadUserStats() {
     if (!trackerId) return;
     const { data, error } = await supabase
       .from("scroll_events")
-      .select("ip_address, occurred_at, ua, viewport_w, viewport_h")
+      .select(
+        "ip_hash, visitor_id, session_id, occurred_at, ua, viewport_w, viewport_h, bot_reason, country, region, sample_rate"
+      )
       .eq("tracker_id", trackerId)
       .gte(
         "occurred_at",
@@ -273,67 +359,95 @@ export default function Dashboard() {
       return;
     }
 
-    // Group by IP and get unique users with realistic country distribution
+    // Group by anonymous visitor (IP hash for events recorded before visitor
+    // IDs), placed where /api/track geolocated them
     const uniqueUsers = new Map();
 
-    // More realistic country distribution with Nepal included
-    const countries = [
-      { code: "US", name: "United States", weight: 20 },
-      { code: "IN", name: "India", weight: 18 },
-      { code: "CN", name: "China", weight: 15 },
-      { code: "NP", name: "Nepal", weight: 15 }, // Increased weight for Nepal
-      { code: "GB", name: "United Kingdom", weight: 8 },
-      { code: "DE", name: "Germany", weight: 6 },
-      { code: "CA", name: "Canada", weight: 5 },
-      { code: "AU", name: "Australia", weight: 4 },
-      { code: "FR", name: "France", weight: 3 },
-      { code: "JP", name: "Japan", weight: 2 },
-    ];
+    // Visitors count as bots when none of their events looks human
+    const humanEvents = new Set(excludeBotTraffic(data || []));
 
     data?.forEach((event) => {
-      if (!uniqueUsers.has(event.ip_address)) {
-        // Create more realistic country assignment
-        const ipHash = event.ip_address.split("").reduce((a, b) => {
+      const visitorKey =
+        event.visitor_id || event.ip_hash || event.session_id || "unknown";
+      if (!uniqueUsers.has(visitorKey)) {
+        const visitorHash = visitorKey.split("").reduce((a, b) => {
           a = (a << 5) - a + b.charCodeAt(0);
           return a & a;
         }, 0);
 
-        // Use weighted random selection for more realistic distribution
-        const random = Math.abs(ipHash) % 100;
-        let cumulativeWeight = 0;
-        let selectedCountry = countries[0];
-
-        for (const country of countries) {
-          cumulativeWeight += country.weight;
-          if (random < cumulativeWeight) {
-            selectedCountry = country;
-            break;
-          }
-        }
-
-        uniqueUsers.set(event.ip_address, {
-          ip: event.ip_address,
-          country: selectedCountry.code,
-          countryName: selectedCountry.name,
+        uniqueUsers.set(visitorKey, {
+          id: visitorKey,
+          country: event.country || null,
+          region: event.region || null,
           lastSeen: event.occurred_at,
-          avatar: `https://api.dicebear.com/7.x/avataaars/svg?seed=${event.ip_address}`,
+          // Avatar colour, derived locally so nothing about visitors leaves
+          // the dashboard
+          hue: Math.abs(visitorHash) % 360,
           deviceType: getDeviceType(
             event.ua || "",
             event.viewport_w || 0,
             event.viewport_h || 0
           ),
+          isBot: !humanEvents.has(event),
+          // Visitors this one stands for on a sampled tracker
+          weight: sampleWeight(event),
         });
+      } else {
+        // Rows come newest first; older ones fill in a missing location
+        const user = uniqueUsers.get(visitorKey);
+        if (humanEvents.has(event)) user.isBot = false;
+        if (!user.country && event.country) {
+          user.country = event.country;
+          user.region = event.region || null;
+        }
       }
     });
 
     setUserStats(Array.from(uniqueUsers.values()));
   }
 
+  // Session summaries repeat the deepest point reached, so only live depth
+  // updates are plotted over time
+  const humanEvents = useMemo(() => excludeBotTraffic(allEvents), [allEvents]);
+  const events = includeBots ? allEvents : humanEvents;
+
+  const userStats = useMemo(
+    () =>
+      includeBots ? allUserStats : allUserStats.filter((user) => !user.isBot),
+    [allUserStats, includeBots]
+  );
+  const userCount = weightedCount(userStats);
+
+  const visibleDwellPages = useMemo(
+    () =>
+      mergePageDwell(
+        includeBots ? dwellPages : dwellPages.filter((page) => !page.bot)
+      ),
+    [dwellPages, includeBots]
+  );
+
+  const depthEvents = useMemo(
+    () => events.filter((e) => e.event_type !== "session_end"),
+    [events]
+  );
+
+  const eventTypeCounts = useMemo(() => {
+    const counts = events.reduce((acc, e) => {
+      const type = e.event_type || "scroll";
+      acc[type] = (acc[type] || 0) + sampleWeight(e);
+      return acc;
+    }, {} as Record<string, number>);
+    Object.keys(counts).forEach((type) => {
+      counts[type] = Math.round(counts[type]);
+    });
+    return counts;
+  }, [events]);
+
   const chartData = useMemo(() => {
-    const labels = events.map((e) =>
+    const labels = depthEvents.map((e) =>
       new Date(e.occurred_at).toLocaleTimeString()
     );
-    const values = events.map((e) => e.scroll_depth);
+    const values = depthEvents.map((e) => e.scroll_depth);
     return {
       labels,
       datasets: [
@@ -355,63 +469,87 @@ export default function Dashboard() {
         },
       ],
     };
-  }, [events]);
+  }, [depthEvents]);
+
+  const sessions = useMemo(() => summarizeSessions(events), [events]);
+
+  const sectionsByPage = useMemo(
+    () => summarizeSections(events, sessions),
+    [events, sessions]
+  );
+
+  const customEvents = useMemo(() => summarizeCustomEvents(events), [events]);
+
+  const sourceBreakdown = useMemo(
+    () => ({
+      source: summarizeBySource(events, sessions, "source"),
+      medium: summarizeBySource(events, sessions, "medium"),
+      campaign: summarizeBySource(events, sessions, "campaign"),
+    }),
+    [events, sessions]
+  );
+
+  const experiments = useMemo(
+    () => summarizeExperiments(events, sessions),
+    [events, sessions]
+  );
+
+  const webVitals = useMemo(
+    () => summarizeWebVitals(events, sessions),
+    [events, sessions]
+  );
+
+  const clickStats = useMemo(
+    () => summarizeClicks(events, sessions),
+    [events, sessions]
+  );
+
+  const readCompletionPages = useMemo(
+    () => summarizeReadCompletion(events),
+    [events]
+  );
+
+  const backScrollPages = useMemo(
+    () => summarizeBackScrolling(events),
+    [events]
+  );
+
+  const rejections = useMemo(
+    () => summarizeRejections(rejectedEvents),
+    [rejectedEvents]
+  );
 
+  const trackerSettings = useMemo(
+    () =>
+      parseTrackerSettings(trackers.find((t) => t.id === trackerId)?.settings),
+    [trackers, trackerId]
+  );
+
+  // Counts are scaled up by each event's sample rate
   const milestoneStats = useMemo(() => {
-    const total = events.length || 1;
+    const total = weightedCount(sessions) || 1;
     const perc = (m: number) =>
       Math.round(
-        (events.filter((e) => e.scroll_depth >= m).length / total) * 100
+        (weightedCount(sessions.filter((s) => s.maxScrollDepth >= m)) / total) *
+          100
       );
     return {
-      p25: perc(25),
-      p50: perc(50),
-      p75: perc(75),
-      p100: perc(100),
-      total: events.length,
+      milestones: trackerSettings.milestones.map((milestone) => ({
+        milestone,
+        rate: perc(milestone),
+      })),
+      total: Math.round(events.reduce((sum, e) => sum + sampleWeight(e), 0)),
     };
-  }, [events]);
+  }, [events, sessions, trackerSettings]);
 
   const engagementStats = useMemo(() => {
-    if (events.length === 0) {
-      return {
-        avgTimeOnPage: 0,
-        scrollCompletionRate: 0,
-        activeScrollRate: 0,
-        totalSessions: 0,
-        avgScrollSpeed: 0,
-        deviceStats: {
-          desktop: {
-            sessions: 0,
-            avgTime: 0,
-            completionRate: 0,
-            activeRate: 0,
-          },
-          mobile: { sessions: 0, avgTime: 0, completionRate: 0, activeRate: 0 },
-          tablet: { sessions: 0, avgTime: 0, completionRate: 0, activeRate: 0 },
-        },
-      };
-    }
-
-    // Get unique sessions (by max_scroll_depth and total_time_on_page)
-    const sessions = events.filter(
-      (e) => e.total_time_on_page && e.max_scroll_depth
-    );
-    const uniqueSessions = new Map();
-
-    sessions.forEach((event) => {
-      const key = `${event.total_time_on_page}-${event.max_scroll_depth}`;
-      if (!uniqueSessions.has(key)) {
-        uniqueSessions.set(key, event);
-      }
-    });
-
-    const sessionData = Array.from(uniqueSessions.values());
+    const sessionData = sessions;
     const totalSessions = sessionData.length;
 
     if (totalSessions === 0) {
       return {
         avgTimeOnPage: 0,
+        avgActiveTime: 0,
         scrollCompletionRate: 0,
         activeScrollRate: 0,
         totalSessions: 0,
@@ -431,13 +569,24 @@ export default function Dashboard() {
 
     // Calculate overall metrics
     const avgTimeOnPage = Math.round(
-      sessionData.reduce((sum, s) => sum + (s.total_time_on_page || 0), 0) /
+      sessionData.reduce((sum, s) => sum + s.totalTimeOnPage, 0) /
         totalSessions /
         1000
     ); // Convert to seconds
 
+    // Attention excludes background-tab and idle time; older sessions
+    // without it are left out of the average
+    const attentionSessions = sessionData.filter((s) => s.activeTime !== null);
+    const avgActiveTime = attentionSessions.length
+      ? Math.round(
+          attentionSessions.reduce((sum, s) => sum + (s.activeTime || 0), 0) /
+            attentionSessions.length /
+            1000
+        )
+      : 0;
+
     const scrollCompletionRate = Math.round(
-      (sessionData.filter((s) => s.max_scroll_depth >= 100).length /
+      (sessionData.filter((s) => s.maxScrollDepth >= 100).length /
         totalSessions) *
         100
     );
@@ -445,7 +594,7 @@ export default function Dashboard() {
     // Active scroll rate: users who reach 75%+ and spend reasonable time
     const activeScrollRate = Math.round(
       (sessionData.filter(
-        (s) => s.max_scroll_depth >= 75 && (s.total_time_on_page || 0) > 10000 // At least 10 seconds
+        (s) => s.maxScrollDepth >= 75 && s.totalTimeOnPage > 10000 // At least 10 seconds
       ).length /
         totalSessions) *
         100
@@ -454,8 +603,8 @@ export default function Dashboard() {
     const avgScrollSpeed = Math.round(
       sessionData.reduce((sum, s) => {
         const speed =
-          s.scroll_events_count && s.total_time_on_page
-            ? s.total_time_on_page / s.scroll_events_count
+          s.scrollEventsCount && s.totalTimeOnPage
+            ? s.totalTimeOnPage / s.scrollEventsCount
             : 0;
         return sum + speed;
       }, 0) / totalSessions
@@ -470,17 +619,17 @@ export default function Dashboard() {
 
     // Group sessions by device type
     const deviceGroups = {
-      desktop: [] as any[],
-      mobile: [] as any[],
-      tablet: [] as any[],
+      desktop: [] as typeof sessionData,
+      mobile: [] as typeof sessionData,
+      tablet: [] as typeof sessionData,
     };
 
     sessionData.forEach((session) => {
       const deviceType = getDeviceType(
-        session.ua || "",
-        session.viewport_w || 0,
-        session.viewport_h || 0
-      );
+        session.ua,
+        session.viewportW,
+        session.viewportH
+      ).toLowerCase();
       if (deviceGroups[deviceType as keyof typeof deviceGroups]) {
         deviceGroups[deviceType as keyof typeof deviceGroups].push(session);
       }
@@ -492,24 +641,20 @@ export default function Dashboard() {
         deviceGroups[deviceType as keyof typeof deviceGroups];
       if (deviceSessions.length > 0) {
         deviceStats[deviceType as keyof typeof deviceStats] = {
-          sessions: deviceSessions.length,
+          sessions: weightedCount(deviceSessions),
           avgTime: Math.round(
-            deviceSessions.reduce(
-              (sum, s) => sum + (s.total_time_on_page || 0),
-              0
-            ) /
+            deviceSessions.reduce((sum, s) => sum + s.totalTimeOnPage, 0) /
               deviceSessions.length /
               1000
           ),
           completionRate: Math.round(
-            (deviceSessions.filter((s) => s.max_scroll_depth >= 100).length /
+            (deviceSessions.filter((s) => s.maxScrollDepth >= 100).length /
               deviceSessions.length) *
               100
           ),
           activeRate: Math.round(
             (deviceSessions.filter(
-              (s) =>
-                s.max_scroll_depth >= 75 && (s.total_time_on_page || 0) > 10000
+              (s) => s.maxScrollDepth >= 75 && s.totalTimeOnPage > 10000
             ).length /
               deviceSessions.length) *
               100
@@ -520,13 +665,14 @@ export default function Dashboard() {
 
     return {
       avgTimeOnPage,
+      avgActiveTime,
       scrollCompletionRate,
       activeScrollRate,
-      totalSessions,
+      totalSessions: weightedCount(sessionData),
       avgScrollSpeed,
       deviceStats,
     };
-  }, [events]);
+  }, [sessions]);
 
   if (!session) {
     return (
@@ -744,6 +890,19 @@ export default function Dashboard() {
               </div>
             )}
 
+            {/* Tracker Settings */}
+            {trackerId && (
+              <div className="mb-6">
+                <h3 className="text-sm font-medium text-gray-300 mb-3">
+                  Script Settings
+                </h3>
+                <TrackerSettingsForm
+                  settings={trackerSettings}
+                  onSave={saveTrackerSettings}
+                />
+              </div>
+            )}
+
             {/* Embed Code */}
             {trackerId && (
               <div>
@@ -787,7 +946,7 @@ export default function Dashboard() {
               <div className="flex items-center space-x-2">
                 <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse"></div>
                 <span className="text-green-400 text-sm">
-                  {userStats.length} online
+                  {userCount} online
                 </span>
               </div>
             </div>
@@ -795,7 +954,7 @@ export default function Dashboard() {
             {/* User Count */}
             <div className="mb-6">
               <div className="text-3xl font-bold text-white mb-1">
-                {userStats.length}
+                {userCount}
               </div>
               <div className="text-sm text-gray-400">Active Users (24h)</div>
             </div>
@@ -804,15 +963,16 @@ export default function Dashboard() {
             <div className="space-y-3 max-h-64 overflow-y-auto">
               {userStats.slice(0, 6).map((user, index) => (
                 <div
-                  key={user.ip}
+                  key={user.id}
                   className="flex items-center space-x-3 p-3 bg-white/5 rounded-xl border border-white/10 hover:bg-white/10 transition-all duration-200"
                 >
                   <div className="relative">
-                    <img
-                      src={user.avatar}
-                      alt="User Avatar"
-                      className="w-10 h-10 rounded-full border-2 border-white/20"
-                    />
+                    <div
+                      className="w-10 h-10 rounded-full border-2 border-white/20 flex items-center justify-center text-sm font-semibold text-white"
+                      style={{ backgroundColor: `hsl(${user.hue}, 55%, 40%)` }}
+                    >
+                      {index + 1}
+                    </div>
                     <div className="absolute -bottom-1 -right-1 w-4 h-4 bg-green-400 rounded-full border-2 border-slate-800 animate-pulse"></div>
                   </div>
                   <div className="flex-1 min-w-0">
@@ -821,7 +981,9 @@ export default function Dashboard() {
                         User {index + 1}
                       </span>
                       <span className="text-xs text-gray-400">
-                        {user.countryName || user.country}
+                        {user.region
+                          ? `${user.region}, ${countryName(user.country)}`
+                          : countryName(user.country)}
                       </span>
                     </div>
                     <div className="flex items-center space-x-2">
@@ -844,21 +1006,7 @@ export default function Dashboard() {
                     </div>
                   </div>
                   <div className="text-xs text-gray-400">
-                    {(() => {
-                      const countryFlags: Record<string, string> = {
-                        US: "🇺🇸",
-                        IN: "🇮🇳",
-                        CN: "🇨🇳",
-                        NP: "🇳🇵",
-                        GB: "🇬🇧",
-                        DE: "🇩🇪",
-                        CA: "🇨🇦",
-                        AU: "🇦🇺",
-                        FR: "🇫🇷",
-                        JP: "🇯🇵",
-                      };
-                      return countryFlags[user.country] || "🌍";
-                    })()}
+                    {countryFlag(user.country)}
                   </div>
                 </div>
               ))}
@@ -877,6 +1025,19 @@ export default function Dashboard() {
                 Analytics Overview
               </h2>
               <div className="flex items-center space-x-2">
+                <label
+                  className="flex items-center space-x-2 text-sm text-gray-300"
+                  title="Events flagged by user agent, navigator.webdriver, a zero-size viewport or impossible scroll speed"
+                >
+                  <input
+                    type="checkbox"
+                    checked={includeBots}
+                    onChange={(e) => setIncludeBots(e.target.checked)}
+                  />
+                  <span>
+                    Include bots ({allEvents.length - humanEvents.length})
+                  </span>
+                </label>
                 <button
                   onClick={exportData}
                   className="bg-green-500/20 text-green-400 px-4 py-2 rounded-lg border border-green-500/30 hover:bg-green-500/30 transition-all duration-200 flex items-center space-x-2"
@@ -899,7 +1060,12 @@ export default function Dashboard() {
                 <button
                   onClick={async () => {
                     setIsRefreshing(true);
-                    await Promise.all([loadEvents(), loadUserStats()]);
+                    await Promise.all([
+                      loadEvents(),
+                      loadUserStats(),
+                      loadDwellHistograms(),
+                      loadRejectedEvents(),
+                    ]);
                     setIsRefreshing(false);
                   }}
                   className="bg-white/10 backdrop-blur-sm text-white px-4 py-2 rounded-lg border border-white/20 hover:bg-white/20 transition-all duration-200 disabled:opacity-50"
@@ -923,34 +1089,47 @@ export default function Dashboard() {
                 {milestoneStats.total}
               </div>
               <div className="text-sm text-gray-400">Total Events</div>
+              <div className="flex flex-wrap gap-2 mt-3">
+                {[
+                  { type: "pageview", label: "Page Views" },
+                  { type: "scroll", label: "Scrolls" },
+                  { type: "milestone", label: "Milestones" },
+                  { type: "session_end", label: "Session Ends" },
+                ].map(({ type, label }) => (
+                  <span
+                    key={type}
+                    className="text-xs px-2 py-1 rounded-full bg-white/10 text-gray-300"
+                  >
+                    {label}: {eventTypeCounts[type] || 0}
+                  </span>
+                ))}
+              </div>
             </div>
 
             {/* Milestone Stats */}
             <div className="grid grid-cols-2 gap-4">
-              <div className="bg-white/5 border border-white/10 rounded-xl p-4 text-center">
-                <div className="text-2xl font-bold text-blue-400 mb-1">
-                  {milestoneStats.p25}%
-                </div>
-                <div className="text-sm text-gray-400">25% Scroll</div>
-              </div>
-              <div className="bg-white/5 border border-white/10 rounded-xl p-4 text-center">
-                <div className="text-2xl font-bold text-purple-400 mb-1">
-                  {milestoneStats.p50}%
-                </div>
-                <div className="text-sm text-gray-400">50% Scroll</div>
-              </div>
-              <div className="bg-white/5 border border-white/10 rounded-xl p-4 text-center">
-                <div className="text-2xl font-bold text-pink-400 mb-1">
-                  {milestoneStats.p75}%
-                </div>
-                <div className="text-sm text-gray-400">75% Scroll</div>
-              </div>
-              <div className="bg-white/5 border border-white/10 rounded-xl p-4 text-center">
-                <div className="text-2xl font-bold text-green-400 mb-1">
-                  {milestoneStats.p100}%
+              {milestoneStats.milestones.map(({ milestone, rate }, index) => (
+                <div
+                  key={milestone}
+                  className="bg-white/5 border border-white/10 rounded-xl p-4 text-center"
+                >
+                  <div
+                    className={`text-2xl font-bold mb-1 ${
+                      [
+                        "text-blue-400",
+                        "text-purple-400",
+                        "text-pink-400",
+                        "text-green-400",
+                      ][index % 4]
+                    }`}
+                  >
+                    {rate}%
+                  </div>
+                  <div className="text-sm text-gray-400">
+                    {milestone}% Scroll
+                  </div>
                 </div>
-                <div className="text-sm text-gray-400">100% Scroll</div>
-              </div>
+              ))}
             </div>
           </div>
         </div>
@@ -989,6 +1168,9 @@ export default function Dashboard() {
                 {engagementStats.avgTimeOnPage}s
               </div>
               <div className="text-sm text-gray-400">Avg Time on Page</div>
+              <div className="text-xs text-cyan-400 mt-1">
+                {engagementStats.avgActiveTime}s active attention
+              </div>
             </div>
 
             {/* Scroll Completion Rate */}
@@ -1079,6 +1261,13 @@ export default function Dashboard() {
                     : " quick browsing"}
                 </span>
               </div>
+              <div className="flex items-center space-x-2">
+                <div className="w-2 h-2 bg-cyan-400 rounded-full"></div>
+                <span>
+                  <strong>{engagementStats.avgActiveTime}s</strong> of that is
+                  active attention (visible tab, not idle)
+                </span>
+              </div>
               <div className="flex items-center space-x-2">
                 <div className="w-2 h-2 bg-green-400 rounded-full"></div>
                 <span>
@@ -1329,6 +1518,36 @@ export default function Dashboard() {
           </div>
         </div>
 
+        {/* Acquisition */}
+        <SourceBreakdownTable breakdown={sourceBreakdown} />
+
+        {/* Experiments */}
+        <ExperimentsTable experiments={experiments} />
+
+        {/* Attention Heatmap */}
+        <DwellHeatStrip pages={visibleDwellPages} />
+
+        {/* Core Web Vitals */}
+        <WebVitalsTable vitals={webVitals} />
+
+        {/* Section Visibility */}
+        <SectionVisibilityTable sectionsByPage={sectionsByPage} />
+
+        {/* Read Completion */}
+        <ReadCompletionTable pages={readCompletionPages} />
+
+        {/* Re-reading */}
+        <BackScrollTable pages={backScrollPages} />
+
+        {/* CTA Clicks */}
+        <CtaClicksTable clicks={clickStats} />
+
+        {/* Custom Events */}
+        <CustomEventsTable customEvents={customEvents} />
+
+        {/* Rejected Events */}
+        <RejectedEventsTable rejections={rejections} />
+
         {/* Charts Section */}
         <div className="grid lg:grid-cols-2 gap-8">
           {/* Scroll Depth Chart */}
@@ -1377,7 +1596,7 @@ export default function Dashboard() {
                           return `Scroll Depth: ${context.parsed.y}%`;
                         },
                         afterLabel: function (context) {
-                          const event = events[context.dataIndex];
+                          const event = depthEvents[context.dataIndex];
                           if (event) {
                             return `Date: ${new Date(
                               event.occurred_at
@@ -1459,7 +1678,8 @@ export default function Dashboard() {
             <div className="space-y-4">
               {(() => {
                 const countryCounts = userStats.reduce((acc, user) => {
-                  acc[user.country] = (acc[user.country] || 0) + 1;
+                  const country = user.country || "unknown";
+                  acc[country] = (acc[country] || 0) + user.weight;
                   return acc;
                 }, {} as Record<string, number>);
 
@@ -1467,72 +1687,50 @@ export default function Dashboard() {
                   .sort(([, a], [, b]) => b - a)
                   .slice(0, 6);
 
-                // Country flag mapping
-                const countryFlags: Record<string, string> = {
-                  US: "🇺🇸",
-                  IN: "🇮🇳",
-                  CN: "🇨🇳",
-                  NP: "🇳🇵",
-                  GB: "🇬🇧",
-                  DE: "🇩🇪",
-                  CA: "🇨🇦",
-                  AU: "🇦🇺",
-                  FR: "🇫🇷",
-                  JP: "🇯🇵",
-                };
-
-                const countryNames: Record<string, string> = {
-                  US: "United States",
-                  IN: "India",
-                  CN: "China",
-                  NP: "Nepal",
-                  GB: "United Kingdom",
-                  DE: "Germany",
-                  CA: "Canada",
-                  AU: "Australia",
-                  FR: "France",
-                  JP: "Japan",
-                };
-
-                return sortedCountries.map(([country, count]) => (
-                  <div
-                    key={country}
-                    className="flex items-center justify-between p-3 bg-white/5 rounded-xl border border-white/10"
-                  >
-                    <div className="flex items-center space-x-3">
-                      <div className="w-8 h-8 bg-gradient-to-r from-blue-500 to-purple-600 rounded-full flex items-center justify-center">
-                        <span className="text-white text-xs font-bold">
-                          {countryFlags[country] || "🌍"}
-                        </span>
-                      </div>
-                      <div>
-                        <div className="text-sm font-medium text-white">
-                          {countryNames[country] || country}
+                return sortedCountries.map(([country, weight]) => {
+                  const count = Math.round(weight);
+                  return (
+                    <div
+                      key={country}
+                      className="flex items-center justify-between p-3 bg-white/5 rounded-xl border border-white/10"
+                    >
+                      <div className="flex items-center space-x-3">
+                        <div className="w-8 h-8 bg-gradient-to-r from-blue-500 to-purple-600 rounded-full flex items-center justify-center">
+                          <span className="text-white text-xs font-bold">
+                            {countryFlag(country)}
+                          </span>
                         </div>
-                        <div className="text-xs text-gray-400">
-                          {count} user{count !== 1 ? "s" : ""}
+                        <div>
+                          <div className="text-sm font-medium text-white">
+                            {countryName(
+                              country === "unknown" ? null : country
+                            )}
+                          </div>
+                          <div className="text-xs text-gray-400">
+                            {count} user{count !== 1 ? "s" : ""}
+                          </div>
                         </div>
                       </div>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <div className="w-16 h-2 bg-slate-700 rounded-full overflow-hidden">
-                        <div
-                          className="h-full bg-gradient-to-r from-blue-500 to-purple-600 rounded-full transition-all duration-300"
-                          style={{
-                            width: `${
-                              (count /
-                                Math.max(...Object.values(countryCounts))) *
-                              100
-                            }%`,
-                          }}
-                        ></div>
+                      <div className="flex items-center space-x-2">
+                        <div className="w-16 h-2 bg-slate-700 rounded-full overflow-hidden">
+                          <div
+                            className="h-full bg-gradient-to-r from-blue-500 to-purple-600 rounded-full transition-all duration-300"
+                            style={{
+                              width: `${
+                                (weight /
+                                  Math.max(...Object.values(countryCounts))) *
+                                100
+                              }%`,
+                            }}
+                          ></div>
+                        </div>
+                        <span className="text-xs text-gray-400 w-8 text-right">
+                          {Math.round((weight / (userCount || 1)) * 100)}%
+                        </span>
                       </div>
-                      <span className="text-xs text-gray-400 w-8 text-right">
-                        {Math.round((count / userStats.length) * 100)}%
-                      </span>
                     </div>
-                  </div>
-                ));
+                  );
+                });
               })()}
 
               {userStats.length === 0 && (
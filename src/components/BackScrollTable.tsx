@@ -0,0 +1,70 @@
+"use client";
+
+import { BackScrollStats } from "@/lib/back-scroll";
+
+type BackScrollTableProps = {
+  pages: BackScrollStats[];
+};
+
+export function BackScrollTable({ pages }: BackScrollTableProps) {
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-semibold text-white">Re-reading</h2>
+        <div className="flex items-center space-x-2">
+          <div className="w-3 h-3 bg-yellow-400 rounded-full"></div>
+          <span className="text-gray-400 text-sm">Back-Scrolling by Page</span>
+        </div>
+      </div>
+
+      {pages.length === 0 ? (
+        <div className="text-center py-8">
+          <div className="text-gray-400 text-sm">
+            No back-scrolling data available
+          </div>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-white/10">
+                <th className="py-2 pr-4 font-medium">Page</th>
+                <th className="py-2 pr-4 font-medium">Sessions</th>
+                <th className="py-2 pr-4 font-medium">Re-read Score</th>
+                <th className="py-2 pr-4 font-medium">Back-Scrolls</th>
+                <th className="py-2 font-medium">Where</th>
+              </tr>
+            </thead>
+            <tbody>
+              {pages.map((page) => (
+                <tr
+                  key={page.page}
+                  className="border-b border-white/5 text-gray-300"
+                >
+                  <td className="py-2 pr-4 text-white">
+                    <div className="flex items-center space-x-2">
+                      <span className="truncate max-w-xs">{page.page}</span>
+                      {page.flagged && (
+                        <span className="text-xs px-2 py-1 rounded-full bg-yellow-500/20 text-yellow-400 whitespace-nowrap">
+                          Unusually high
+                        </span>
+                      )}
+                    </div>
+                  </td>
+                  <td className="py-2 pr-4">{page.sessions}</td>
+                  <td className="py-2 pr-4">{page.avgReReadScore}</td>
+                  <td className="py-2 pr-4">{page.avgBackScrolls} / session</td>
+                  <td className="py-2">
+                    {page.hotRanges.length > 0
+                      ? page.hotRanges.join(", ")
+                      : "-"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
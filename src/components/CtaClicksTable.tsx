@@ -0,0 +1,107 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ClickStats } from "@/lib/clicks";
+
+type CtaClicksTableProps = {
+  clicks: ClickStats[];
+};
+
+export function CtaClicksTable({ clicks }: CtaClicksTableProps) {
+  const [selected, setSelected] = useState("");
+
+  // Keep a valid target selected as data refreshes
+  useEffect(() => {
+    if (!clicks.some((c) => c.target === selected)) {
+      setSelected(clicks[0]?.target || "");
+    }
+  }, [clicks, selected]);
+
+  const current = clicks.find((c) => c.target === selected);
+  const maxRate = Math.max(
+    ...(current?.bands.map((b) => b.clickThroughRate) || [0]),
+    1
+  );
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-semibold text-white">CTA Clicks</h2>
+        <div className="flex items-center space-x-2">
+          <div className="w-3 h-3 bg-cyan-400 rounded-full"></div>
+          <span className="text-gray-400 text-sm">Click-Through by Depth</span>
+        </div>
+      </div>
+
+      {clicks.length === 0 ? (
+        <div className="text-center py-8">
+          <div className="text-gray-400 text-sm">
+            No clicks yet. Mark buttons with{" "}
+            <code className="text-green-400">
+              data-scrollsensie-cta=&quot;signup&quot;
+            </code>{" "}
+            or turn on outbound link tracking.
+          </div>
+        </div>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-6">
+          {/* Click Targets */}
+          <div className="space-y-2">
+            {clicks.map((click) => (
+              <button
+                key={click.target}
+                onClick={() => setSelected(click.target)}
+                className={`w-full flex items-center justify-between p-3 rounded-xl border transition-all duration-200 ${
+                  click.target === selected
+                    ? "bg-cyan-500/20 border-cyan-500/30"
+                    : "bg-white/5 border-white/10 hover:bg-white/10"
+                }`}
+              >
+                <span className="text-sm font-medium text-white truncate mr-2">
+                  {click.target}
+                  {click.kind === "outbound" && (
+                    <span className="ml-2 text-xs text-gray-400">outbound</span>
+                  )}
+                </span>
+                <span className="text-xs text-gray-400 whitespace-nowrap">
+                  {click.clicks} click{click.clicks !== 1 ? "s" : ""} · avg{" "}
+                  {click.avgDepth}% deep
+                </span>
+              </button>
+            ))}
+          </div>
+
+          {/* Depth Bands */}
+          {current && (
+            <div className="space-y-3">
+              {current.label && (
+                <div className="text-sm text-gray-400 truncate">
+                  &quot;{current.label}&quot;
+                </div>
+              )}
+              {current.bands.map((band) => (
+                <div
+                  key={band.band}
+                  className="flex items-center justify-between text-sm"
+                >
+                  <span className="text-gray-400 w-20">{band.band}</span>
+                  <div className="flex-1 mx-3 h-2 bg-slate-700 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-gradient-to-r from-cyan-500 to-blue-500 rounded-full"
+                      style={{
+                        width: `${(band.clickThroughRate / maxRate) * 100}%`,
+                      }}
+                    ></div>
+                  </div>
+                  <span className="text-xs text-gray-400 w-32 text-right">
+                    {band.clickThroughRate}% ({band.clicks}/{band.reached})
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
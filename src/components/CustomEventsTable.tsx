@@ -0,0 +1,110 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CustomEventStats } from "@/lib/custom-events";
+
+type CustomEventsTableProps = {
+  customEvents: CustomEventStats[];
+};
+
+export function CustomEventsTable({ customEvents }: CustomEventsTableProps) {
+  const [selected, setSelected] = useState("");
+
+  // Keep a valid event selected as data refreshes
+  useEffect(() => {
+    if (!customEvents.some((e) => e.name === selected)) {
+      setSelected(customEvents[0]?.name || "");
+    }
+  }, [customEvents, selected]);
+
+  const current = customEvents.find((e) => e.name === selected);
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-semibold text-white">Custom Events</h2>
+        <div className="flex items-center space-x-2">
+          <div className="w-3 h-3 bg-orange-400 rounded-full"></div>
+          <span className="text-gray-400 text-sm">scrollsensie.track()</span>
+        </div>
+      </div>
+
+      {customEvents.length === 0 ? (
+        <div className="text-center py-8">
+          <div className="text-gray-400 text-sm">
+            No custom events yet. Send one with{" "}
+            <code className="text-green-400">
+              scrollsensie.track(&quot;signup&quot;, {'{ plan: "pro" }'})
+            </code>
+          </div>
+        </div>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-6">
+          {/* Event Counts */}
+          <div className="space-y-2">
+            {customEvents.map((event) => (
+              <button
+                key={event.name}
+                onClick={() => setSelected(event.name)}
+                className={`w-full flex items-center justify-between p-3 rounded-xl border transition-all duration-200 ${
+                  event.name === selected
+                    ? "bg-orange-500/20 border-orange-500/30"
+                    : "bg-white/5 border-white/10 hover:bg-white/10"
+                }`}
+              >
+                <span className="text-sm font-medium text-white">
+                  {event.name}
+                </span>
+                <span className="text-xs text-gray-400">
+                  {event.count} event{event.count !== 1 ? "s" : ""} ·{" "}
+                  {event.sessions} session{event.sessions !== 1 ? "s" : ""}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          {/* Property Breakdown */}
+          <div className="space-y-4">
+            {current && current.properties.length === 0 && (
+              <div className="text-gray-400 text-sm">
+                This event has no properties
+              </div>
+            )}
+            {current?.properties.map(({ property, values }) => (
+              <div key={property}>
+                <div className="text-sm font-medium text-gray-300 mb-2">
+                  {property}
+                </div>
+                <div className="space-y-1">
+                  {values.map(({ value, count }) => (
+                    <div
+                      key={value}
+                      className="flex items-center justify-between text-sm"
+                    >
+                      <span className="text-gray-400 truncate mr-2">
+                        {value}
+                      </span>
+                      <div className="flex items-center space-x-2">
+                        <div className="w-16 h-2 bg-slate-700 rounded-full overflow-hidden">
+                          <div
+                            className="h-full bg-gradient-to-r from-orange-500 to-red-500 rounded-full"
+                            style={{
+                              width: `${(count / current.count) * 100}%`,
+                            }}
+                          ></div>
+                        </div>
+                        <span className="text-xs text-gray-400 w-8 text-right">
+                          {count}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { PageDwell, toHeatStrip } from "@/lib/dwell";
+
+type DwellHeatStripProps = {
+  pages: PageDwell[];
+};
+
+export function DwellHeatStrip({ pages }: DwellHeatStripProps) {
+  const [page, setPage] = useState("");
+
+  // Keep a valid page selected as data refreshes
+  useEffect(() => {
+    if (!pages.some((p) => p.page === page)) setPage(pages[0]?.page || "");
+  }, [pages, page]);
+
+  const current = pages.find((p) => p.page === page);
+  const bands = current ? toHeatStrip(current) : [];
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-semibold text-white">Attention Heatmap</h2>
+        <div className="flex items-center space-x-2">
+          <div className="w-3 h-3 bg-orange-400 rounded-full"></div>
+          <span className="text-gray-400 text-sm">Dwell Time by Depth</span>
+        </div>
+      </div>
+
+      {pages.length === 0 ? (
+        <div className="text-center py-8">
+          <div className="text-gray-400 text-sm">No dwell data available</div>
+        </div>
+      ) : (
+        <>
+          <select
+            className="w-full bg-slate-800 border border-white/20 rounded-xl p-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent mb-4"
+            value={page}
+            onChange={(e) => setPage(e.target.value)}
+            style={{ colorScheme: "dark" }}
+          >
+            {pages.map((p) => (
+              <option
+                key={p.page}
+                value={p.page}
+                className="bg-slate-800 text-white"
+              >
+                {p.page} ({p.sessions} session{p.sessions !== 1 ? "s" : ""})
+              </option>
+            ))}
+          </select>
+
+          <div className="max-w-sm mx-auto">
+            {bands.map((band) => (
+              <div key={band.band} className="flex items-center text-xs">
+                <span className="text-gray-500 w-16 text-right pr-3">
+                  {band.band}
+                </span>
+                <div
+                  className="flex-1 h-5 border-b border-slate-900/50"
+                  style={{
+                    backgroundColor: `rgba(249, 115, 22, ${
+                      0.05 + band.intensity * 0.9
+                    })`,
+                  }}
+                  title={`${band.band}: ${band.avgTime}s per session`}
+                ></div>
+                <span className="text-gray-400 w-14 pl-3">{band.avgTime}s</span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Estimate, ExperimentStats } from "@/lib/experiments";
+
+function EstimateCell({
+  estimate,
+  unit,
+}: {
+  estimate: Estimate;
+  unit: string;
+}) {
+  return (
+    <td className="py-2 pr-4">
+      {estimate.value}
+      {unit}
+      <div className="text-xs text-gray-500">
+        95% CI {estimate.low}-{estimate.high}
+        {unit}
+      </div>
+    </td>
+  );
+}
+
+type ExperimentsTableProps = {
+  experiments: ExperimentStats[];
+};
+
+export function ExperimentsTable({ experiments }: ExperimentsTableProps) {
+  const [selected, setSelected] = useState("");
+
+  // Keep a valid experiment selected as data refreshes
+  useEffect(() => {
+    if (!experiments.some((e) => e.experiment === selected)) {
+      setSelected(experiments[0]?.experiment || "");
+    }
+  }, [experiments, selected]);
+
+  const current = experiments.find((e) => e.experiment === selected);
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-semibold text-white">Experiments</h2>
+        <div className="flex items-center space-x-2">
+          <div className="w-3 h-3 bg-violet-400 rounded-full"></div>
+          <span className="text-gray-400 text-sm">Variant Comparison</span>
+        </div>
+      </div>
+
+      {experiments.length === 0 ? (
+        <div className="text-center py-8">
+          <div className="text-gray-400 text-sm">
+            No experiments yet. Tag pages with{" "}
+            <code className="text-green-400">
+              data-experiment=&quot;headline&quot; data-variant=&quot;b&quot;
+            </code>{" "}
+            or call{" "}
+            <code className="text-green-400">scrollsensie.setVariant()</code>
+          </div>
+        </div>
+      ) : (
+        <>
+          <select
+            className="w-full bg-slate-800 border border-white/20 rounded-xl p-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent mb-4"
+            value={selected}
+            onChange={(e) => setSelected(e.target.value)}
+            style={{ colorScheme: "dark" }}
+          >
+            {experiments.map((e) => (
+              <option
+                key={e.experiment}
+                value={e.experiment}
+                className="bg-slate-800 text-white"
+              >
+                {e.experiment}
+              </option>
+            ))}
+          </select>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-white/10">
+                  <th className="py-2 pr-4 font-medium">Variant</th>
+                  <th className="py-2 pr-4 font-medium">Sessions</th>
+                  <th className="py-2 pr-4 font-medium">Completion</th>
+                  <th className="py-2 pr-4 font-medium">Avg Depth</th>
+                  <th className="py-2 pr-4 font-medium">Avg Attention</th>
+                </tr>
+              </thead>
+              <tbody>
+                {current?.variants.map((variant) => (
+                  <tr
+                    key={variant.variant}
+                    className="border-b border-white/5 text-gray-300"
+                  >
+                    <td className="py-2 pr-4 text-white">{variant.variant}</td>
+                    <td className="py-2 pr-4">{variant.sessions}</td>
+                    <EstimateCell estimate={variant.completionRate} unit="%" />
+                    <EstimateCell estimate={variant.avgDepth} unit="%" />
+                    <EstimateCell estimate={variant.avgActiveTime} unit="s" />
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="text-xs text-gray-500 mt-3">
+            Variants whose intervals don&apos;t overlap differ significantly.
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
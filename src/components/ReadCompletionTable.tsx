@@ -0,0 +1,75 @@
+"use client";
+
+import { ReadCompletionStats } from "@/lib/reading";
+
+type ReadCompletionTableProps = {
+  pages: ReadCompletionStats[];
+};
+
+export function ReadCompletionTable({ pages }: ReadCompletionTableProps) {
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-semibold text-white">Read Completion</h2>
+        <div className="flex items-center space-x-2">
+          <div className="w-3 h-3 bg-teal-400 rounded-full"></div>
+          <span className="text-gray-400 text-sm">Attention vs Length</span>
+        </div>
+      </div>
+
+      {pages.length === 0 ? (
+        <div className="text-center py-8">
+          <div className="text-gray-400 text-sm">No reading data available</div>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-white/10">
+                <th className="py-2 pr-4 font-medium">Page</th>
+                <th className="py-2 pr-4 font-medium">Words</th>
+                <th className="py-2 pr-4 font-medium">Expected</th>
+                <th className="py-2 pr-4 font-medium">Avg Active</th>
+                <th className="py-2 pr-4 font-medium">Avg Depth</th>
+                <th className="py-2 pr-4 font-medium">Completion</th>
+                <th className="py-2 font-medium">Read Fully</th>
+              </tr>
+            </thead>
+            <tbody>
+              {pages.map((page) => (
+                <tr
+                  key={page.page}
+                  className="border-b border-white/5 text-gray-300"
+                >
+                  <td className="py-2 pr-4 text-white">
+                    <span className="truncate max-w-xs block">{page.page}</span>
+                    <span className="text-xs text-gray-500">
+                      {page.sessions} session{page.sessions !== 1 ? "s" : ""} ·{" "}
+                      {page.documentHeight}px
+                    </span>
+                  </td>
+                  <td className="py-2 pr-4">{page.wordCount}</td>
+                  <td className="py-2 pr-4">{page.expectedTime}s</td>
+                  <td className="py-2 pr-4">{page.avgActiveTime}s</td>
+                  <td className="py-2 pr-4">{page.avgDepth}%</td>
+                  <td className="py-2 pr-4">
+                    <div className="flex items-center space-x-2">
+                      <div className="w-16 h-2 bg-slate-700 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-gradient-to-r from-teal-500 to-green-500 rounded-full"
+                          style={{ width: `${page.readCompletion}%` }}
+                        ></div>
+                      </div>
+                      <span>{page.readCompletion}%</span>
+                    </div>
+                  </td>
+                  <td className="py-2">{page.readRate}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
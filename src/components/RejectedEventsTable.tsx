@@ -0,0 +1,60 @@
+"use client";
+
+import { REJECTION_REASONS, RejectionSummary } from "@/lib/rejections";
+
+type RejectedEventsTableProps = {
+  rejections: RejectionSummary;
+};
+
+export function RejectedEventsTable({ rejections }: RejectedEventsTableProps) {
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-semibold text-white">Rejected Events</h2>
+        <div className="flex items-center space-x-2">
+          <div className="w-3 h-3 bg-red-400 rounded-full"></div>
+          <span className="text-gray-400 text-sm">
+            {rejections.total} in the last 30 days
+          </span>
+        </div>
+      </div>
+
+      {rejections.hosts.length === 0 ? (
+        <div className="text-center py-8">
+          <div className="text-gray-400 text-sm">
+            No events rejected. Restrict where events may come from with the
+            tracker&apos;s Allowed Domains setting.
+          </div>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-white/10">
+                <th className="py-2 pr-4 font-medium">Host</th>
+                <th className="py-2 pr-4 font-medium">Reason</th>
+                <th className="py-2 pr-4 font-medium">Events</th>
+                <th className="py-2 font-medium">Last Seen</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rejections.hosts.map((entry) => (
+                <tr
+                  key={`${entry.reason} ${entry.host}`}
+                  className="border-b border-white/5 text-gray-300"
+                >
+                  <td className="py-2 pr-4 text-white">{entry.host}</td>
+                  <td className="py-2 pr-4">
+                    {REJECTION_REASONS[entry.reason] || entry.reason}
+                  </td>
+                  <td className="py-2 pr-4">{entry.count}</td>
+                  <td className="py-2">{entry.lastSeen}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
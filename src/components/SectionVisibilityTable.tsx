@@ -0,0 +1,94 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { SectionStats } from "@/lib/sections";
+
+type SectionVisibilityTableProps = {
+  sectionsByPage: Record<string, SectionStats[]>;
+};
+
+export function SectionVisibilityTable({
+  sectionsByPage,
+}: SectionVisibilityTableProps) {
+  const pages = Object.keys(sectionsByPage).sort();
+  const [page, setPage] = useState("");
+
+  // Keep a valid page selected as data refreshes
+  useEffect(() => {
+    if (!pages.includes(page)) setPage(pages[0] || "");
+  }, [pages, page]);
+
+  const rows = sectionsByPage[page] || [];
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-semibold text-white">Section Visibility</h2>
+        <div className="flex items-center space-x-2">
+          <div className="w-3 h-3 bg-pink-400 rounded-full"></div>
+          <span className="text-gray-400 text-sm">Seen & Dwell Time</span>
+        </div>
+      </div>
+
+      {pages.length === 0 ? (
+        <div className="text-center py-8">
+          <div className="text-gray-400 text-sm">
+            No section data yet. Mark content with{" "}
+            <code className="text-green-400">
+              data-scrollsensie-section=&quot;name&quot;
+            </code>{" "}
+            to track it.
+          </div>
+        </div>
+      ) : (
+        <>
+          <select
+            className="w-full bg-slate-800 border border-white/20 rounded-xl p-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent mb-4"
+            value={page}
+            onChange={(e) => setPage(e.target.value)}
+            style={{ colorScheme: "dark" }}
+          >
+            {pages.map((p) => (
+              <option key={p} value={p} className="bg-slate-800 text-white">
+                {p}
+              </option>
+            ))}
+          </select>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-white/10">
+                  <th className="py-2 pr-4 font-medium">Section</th>
+                  <th className="py-2 pr-4 font-medium">Seen By</th>
+                  <th className="py-2 pr-4 font-medium">Avg Dwell</th>
+                  <th className="py-2 pr-4 font-medium">First Seen</th>
+                  <th className="py-2 font-medium">At Depth</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr
+                    key={row.section}
+                    className="border-b border-white/5 text-gray-300"
+                  >
+                    <td className="py-2 pr-4 text-white">{row.section}</td>
+                    <td className="py-2 pr-4">
+                      {row.visibilityRate}%{" "}
+                      <span className="text-xs text-gray-500">
+                        ({row.viewers} session{row.viewers !== 1 ? "s" : ""})
+                      </span>
+                    </td>
+                    <td className="py-2 pr-4">{row.avgVisibleTime}s</td>
+                    <td className="py-2 pr-4">{row.avgFirstSeenAt}s</td>
+                    <td className="py-2">{row.avgDepth}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import { useState } from "react";
+import { AttributionDimension, SourceStats } from "@/lib/attribution";
+
+const DIMENSIONS: { key: AttributionDimension; label: string }[] = [
+  { key: "source", label: "Source" },
+  { key: "medium", label: "Medium" },
+  { key: "campaign", label: "Campaign" },
+];
+
+type SourceBreakdownTableProps = {
+  breakdown: Record<AttributionDimension, SourceStats[]>;
+};
+
+export function SourceBreakdownTable({ breakdown }: SourceBreakdownTableProps) {
+  const [dimension, setDimension] = useState<AttributionDimension>("source");
+  const rows = breakdown[dimension];
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-semibold text-white">Acquisition</h2>
+        <div className="flex items-center space-x-2">
+          {DIMENSIONS.map(({ key, label }) => (
+            <button
+              key={key}
+              onClick={() => setDimension(key)}
+              className={`text-xs px-3 py-1 rounded-full border transition-all duration-200 ${
+                key === dimension
+                  ? "bg-indigo-500/20 border-indigo-500/30 text-indigo-300"
+                  : "bg-white/5 border-white/10 text-gray-400 hover:bg-white/10"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="text-center py-8">
+          <div className="text-gray-400 text-sm">
+            No acquisition data available
+          </div>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-white/10">
+                <th className="py-2 pr-4 font-medium">
+                  {DIMENSIONS.find((d) => d.key === dimension)!.label}
+                </th>
+                <th className="py-2 pr-4 font-medium">Sessions</th>
+                <th className="py-2 pr-4 font-medium">Avg Depth</th>
+                <th className="py-2 pr-4 font-medium">Completion</th>
+                <th className="py-2 pr-4 font-medium">Avg Time</th>
+                <th className="py-2 font-medium">Avg Active</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr
+                  key={row.value}
+                  className="border-b border-white/5 text-gray-300"
+                >
+                  <td className="py-2 pr-4 text-white">{row.value}</td>
+                  <td className="py-2 pr-4">{row.sessions}</td>
+                  <td className="py-2 pr-4">{row.avgDepth}%</td>
+                  <td className="py-2 pr-4">{row.completionRate}%</td>
+                  <td className="py-2 pr-4">{row.avgTimeOnPage}s</td>
+                  <td className="py-2">{row.avgActiveTime}s</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
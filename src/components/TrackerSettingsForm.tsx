@@ -0,0 +1,194 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { TrackerSettings, trackerSettingsSchema } from "@/lib/tracker-settings";
+
+type ToggleKey =
+  | "spa"
+  | "respectPrivacySignals"
+  | "trackOutboundLinks"
+  | "webVitals";
+
+const TOGGLES: { key: ToggleKey; label: string }[] = [
+  { key: "spa", label: "Track single-page app navigation" },
+  {
+    key: "respectPrivacySignals",
+    label:
+      "Don't track visitors sending Do Not Track or Global Privacy Control",
+  },
+  { key: "trackOutboundLinks", label: "Track clicks on links to other sites" },
+  { key: "webVitals", label: "Record Core Web Vitals (LCP, CLS, INP)" },
+];
+
+// A blank field is a value left out, not 0 (which would stop tracking or
+// turn a limit off), so it fails validation instead
+function toNumber(value: string): number {
+  return value.trim() ? Number(value) : NaN;
+}
+
+type TrackerSettingsFormProps = {
+  settings: TrackerSettings;
+  onSave: (settings: TrackerSettings) => Promise<void>;
+};
+
+export function TrackerSettingsForm({
+  settings,
+  onSave,
+}: TrackerSettingsFormProps) {
+  const [milestones, setMilestones] = useState("");
+  const [samplePercent, setSamplePercent] = useState("");
+  const [contentSelector, setContentSelector] = useState("");
+  const [allowedOrigins, setAllowedOrigins] = useState("");
+  const [eventsPerMinute, setEventsPerMinute] = useState("");
+  const [eventsPerMinutePerIp, setEventsPerMinutePerIp] = useState("");
+  const [toggles, setToggles] = useState<Pick<TrackerSettings, ToggleKey>>({
+    spa: true,
+    respectPrivacySignals: false,
+    trackOutboundLinks: false,
+    webVitals: false,
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form whenever another tracker (or freshly saved settings) is shown
+  useEffect(() => {
+    setMilestones(settings.milestones.join(", "));
+    setSamplePercent(String(Math.round(settings.sampleRate * 100)));
+    setContentSelector(settings.contentSelector);
+    setAllowedOrigins(settings.allowedOrigins.join("\n"));
+    setEventsPerMinute(String(settings.eventsPerMinute));
+    setEventsPerMinutePerIp(String(settings.eventsPerMinutePerIp));
+    setToggles({
+      spa: settings.spa,
+      respectPrivacySignals: settings.respectPrivacySignals,
+      trackOutboundLinks: settings.trackOutboundLinks,
+      webVitals: settings.webVitals,
+    });
+  }, [settings]);
+
+  async function save(e: React.FormEvent) {
+    e.preventDefault();
+    const parse = trackerSettingsSchema.safeParse({
+      milestones: milestones
+        .split(",")
+        .map((m) => m.trim())
+        .filter(Boolean)
+        .map(Number),
+      sampleRate: toNumber(samplePercent) / 100,
+      contentSelector,
+      allowedOrigins: allowedOrigins.split(/[\s,]+/).filter(Boolean),
+      eventsPerMinute: toNumber(eventsPerMinute),
+      eventsPerMinutePerIp: toNumber(eventsPerMinutePerIp),
+      ...toggles,
+    });
+    if (!parse.success) {
+      alert(
+        "Invalid settings: milestones must be 1-20 whole numbers between 1 and 100, the sample rate between 1 and 100% (or 0% to stop tracking), allowed domains up to 50 hosts such as example.com or *.example.com, and rate limits whole numbers (0 for no limit). The sample rate and rate limits can't be left blank."
+      );
+      return;
+    }
+
+    setIsSaving(true);
+    await onSave(parse.data);
+    setIsSaving(false);
+  }
+
+  return (
+    <form onSubmit={save} className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Milestones (%)
+        </label>
+        <input
+          className="w-full bg-white/10 border border-white/20 rounded-xl p-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          placeholder="25, 50, 75, 100"
+          value={milestones}
+          onChange={(e) => setMilestones(e.target.value)}
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Sample Rate (%)
+        </label>
+        <input
+          type="number"
+          min={0}
+          max={100}
+          className="w-full bg-white/10 border border-white/20 rounded-xl p-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          value={samplePercent}
+          onChange={(e) => setSamplePercent(e.target.value)}
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Main Content Selector
+        </label>
+        <input
+          className="w-full bg-white/10 border border-white/20 rounded-xl p-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          placeholder="article, main or the page body"
+          value={contentSelector}
+          onChange={(e) => setContentSelector(e.target.value)}
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Allowed Domains
+        </label>
+        <textarea
+          rows={3}
+          className="w-full bg-white/10 border border-white/20 rounded-xl p-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          placeholder={"example.com\n*.example.com\n(empty allows any site)"}
+          value={allowedOrigins}
+          onChange={(e) => setAllowedOrigins(e.target.value)}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Events / Minute
+          </label>
+          <input
+            type="number"
+            min={0}
+            className="w-full bg-white/10 border border-white/20 rounded-xl p-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            value={eventsPerMinute}
+            onChange={(e) => setEventsPerMinute(e.target.value)}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Per IP / Minute
+          </label>
+          <input
+            type="number"
+            min={0}
+            className="w-full bg-white/10 border border-white/20 rounded-xl p-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            value={eventsPerMinutePerIp}
+            onChange={(e) => setEventsPerMinutePerIp(e.target.value)}
+          />
+        </div>
+      </div>
+      {TOGGLES.map(({ key, label }) => (
+        <label
+          key={key}
+          className="flex items-center space-x-2 text-sm text-gray-300"
+        >
+          <input
+            type="checkbox"
+            checked={toggles[key]}
+            onChange={(e) =>
+              setToggles((prev) => ({ ...prev, [key]: e.target.checked }))
+            }
+          />
+          <span>{label}</span>
+        </label>
+      ))}
+      <button
+        type="submit"
+        disabled={isSaving}
+        className="w-full bg-white/10 backdrop-blur-sm text-white px-4 py-2 rounded-lg border border-white/20 hover:bg-white/20 transition-all duration-200 disabled:opacity-50"
+      >
+        {isSaving ? "Saving..." : "Save Settings"}
+      </button>
+    </form>
+  );
+}
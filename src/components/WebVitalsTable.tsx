@@ -0,0 +1,102 @@
+"use client";
+
+import { VitalMetric, VitalRating, VitalStats } from "@/lib/web-vitals";
+
+const METRIC_LABELS: Record<VitalMetric, string> = {
+  lcp: "LCP",
+  cls: "CLS",
+  inp: "INP",
+};
+
+const RATING_STYLES: Record<VitalRating, { label: string; color: string }> = {
+  good: { label: "Good", color: "text-green-400" },
+  "needs-improvement": { label: "Needs Improvement", color: "text-yellow-400" },
+  poor: { label: "Poor", color: "text-red-400" },
+};
+
+function formatValue(metric: VitalMetric, value: number | null) {
+  if (value === null) return "-";
+  return metric === "cls" ? value.toFixed(2) : `${value}ms`;
+}
+
+type WebVitalsTableProps = {
+  vitals: VitalStats[];
+};
+
+export function WebVitalsTable({ vitals }: WebVitalsTableProps) {
+  const hasData = vitals.some((v) => v.median !== null);
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-semibold text-white">Core Web Vitals</h2>
+        <div className="flex items-center space-x-2">
+          <div className="w-3 h-3 bg-lime-400 rounded-full"></div>
+          <span className="text-gray-400 text-sm">
+            Depth & Completion by Rating
+          </span>
+        </div>
+      </div>
+
+      {!hasData ? (
+        <div className="text-center py-8">
+          <div className="text-gray-400 text-sm">
+            No Web Vitals yet. Turn on &quot;Record Core Web Vitals&quot; in the
+            tracker settings.
+          </div>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-white/10">
+                <th className="py-2 pr-4 font-medium">Metric</th>
+                {Object.entries(RATING_STYLES).map(([rating, style]) => (
+                  <th
+                    key={rating}
+                    className={`py-2 pr-4 font-medium ${style.color}`}
+                  >
+                    {style.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {vitals.map((vital) => (
+                <tr
+                  key={vital.metric}
+                  className="border-b border-white/5 text-gray-300"
+                >
+                  <td className="py-2 pr-4 text-white">
+                    {METRIC_LABELS[vital.metric]}
+                    <div className="text-xs text-gray-500">
+                      median {formatValue(vital.metric, vital.median)}
+                    </div>
+                  </td>
+                  {vital.ratings.map((rating) => (
+                    <td key={rating.rating} className="py-2 pr-4">
+                      {rating.sessions === 0 ? (
+                        <span className="text-gray-500">-</span>
+                      ) : (
+                        <>
+                          <div>
+                            {rating.avgDepth}% deep · {rating.completionRate}%
+                            complete
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            {rating.sessions} session
+                            {rating.sessions !== 1 ? "s" : ""}
+                          </div>
+                        </>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+// Acquisition source normalisation and per-source dashboard metrics
+import { ScrollEventRow, SessionSummary, weightedCount } from "@/lib/sessions";
+
+export type Attribution = {
+  referrer: string | null;
+  source: string;
+  medium: string;
+  campaign: string | null;
+};
+
+// Referrer hosts with a known medium, matched on the host or any subdomain
+const SEARCH_ENGINES = [
+  "google",
+  "bing",
+  "duckduckgo",
+  "yahoo",
+  "ecosia",
+  "baidu",
+  "yandex",
+  "startpage",
+  "qwant",
+];
+const SOCIAL_NETWORKS: Record<string, string> = {
+  "facebook.com": "facebook",
+  "fb.com": "facebook",
+  "instagram.com": "instagram",
+  "t.co": "twitter",
+  "twitter.com": "twitter",
+  "x.com": "twitter",
+  "linkedin.com": "linkedin",
+  "lnkd.in": "linkedin",
+  "reddit.com": "reddit",
+  "news.ycombinator.com": "hackernews",
+  "youtube.com": "youtube",
+  "pinterest.com": "pinterest",
+  "threads.net": "threads",
+  "bsky.app": "bluesky",
+  "mastodon.social": "mastodon",
+};
+const EMAIL_CLIENTS: Record<string, string> = {
+  "mail.google.com": "gmail",
+  "outlook.live.com": "outlook",
+  "outlook.office.com": "outlook",
+  "mail.yahoo.com": "yahoo",
+};
+
+// Common spellings of the same utm_medium
+const MEDIUM_ALIASES: Record<string, string> = {
+  "e-mail": "email",
+  newsletter: "email",
+  "social-media": "social",
+  "social-network": "social",
+  sm: "social",
+  ppc: "cpc",
+  paid: "cpc",
+  paidsearch: "cpc",
+};
+
+function clean(value?: string | null) {
+  const trimmed = value?.trim().toLowerCase();
+  return trimmed ? trimmed.slice(0, 100) : null;
+}
+
+function matchesHost(host: string, domain: string) {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+// Turn the raw referrer and utm parameters of a page view into
+// source/medium/campaign. UTM tags win over the referrer; a referrer from
+// the page's own host means the visitor navigated within the site.
+export function normalizeAttribution(
+  pageUrl: string,
+  referrer?: string | null,
+  utm?: { source?: string; medium?: string; campaign?: string }
+): Attribution {
+  let referrerUrl: URL | null = null;
+  try {
+    referrerUrl = referrer ? new URL(referrer) : null;
+  } catch {
+    referrerUrl = null;
+  }
+  let pageHost = "";
+  try {
+    pageHost = new URL(pageUrl).host;
+  } catch {}
+
+  // Query strings can carry personal data, so only origin and path are kept
+  const storedReferrer = referrerUrl
+    ? `${referrerUrl.origin}${referrerUrl.pathname}`
+    : null;
+  const campaign = clean(utm?.campaign);
+
+  const utmSource = clean(utm?.source);
+  if (utmSource) {
+    const medium = clean(utm?.medium);
+    return {
+      referrer: storedReferrer,
+      source: utmSource,
+      medium: medium ? MEDIUM_ALIASES[medium] || medium : "(not set)",
+      campaign,
+    };
+  }
+
+  if (!referrerUrl) {
+    return { referrer: null, source: "direct", medium: "none", campaign };
+  }
+
+  const host = referrerUrl.host.replace(/^www\./, "").toLowerCase();
+  let source = host;
+  let medium = "referral";
+
+  if (referrerUrl.host === pageHost) {
+    source = "internal";
+    medium = "internal";
+  } else if (EMAIL_CLIENTS[host]) {
+    source = EMAIL_CLIENTS[host];
+    medium = "email";
+  } else {
+    const social = Object.keys(SOCIAL_NETWORKS).find((domain) =>
+      matchesHost(host, domain)
+    );
+    const engine = SEARCH_ENGINES.find((name) =>
+      host.split(".").includes(name)
+    );
+    if (social) {
+      source = SOCIAL_NETWORKS[social];
+      medium = "social";
+    } else if (engine) {
+      source = engine;
+      medium = "organic";
+    }
+  }
+
+  return { referrer: storedReferrer, source, medium, campaign };
+}
+
+export type AttributionDimension = "source" | "medium" | "campaign";
+
+export type SourceStats = {
+  value: string;
+  sessions: number;
+  avgDepth: number;
+  completionRate: number;
+  avgTimeOnPage: number;
+  avgActiveTime: number;
+};
+
+// Scroll and engagement metrics per acquisition source, medium or campaign.
+// Sessions are attributed through their page view event.
+export function summarizeBySource(
+  events: ScrollEventRow[],
+  sessions: SessionSummary[],
+  dimension: AttributionDimension
+): SourceStats[] {
+  const sessionValues = new Map<string, string>();
+  events.forEach((event) => {
+    if (event.event_type !== "pageview" || !event.session_id) return;
+    const value = event[dimension];
+    if (value) sessionValues.set(event.session_id, value);
+  });
+
+  const groups = new Map<string, SessionSummary[]>();
+  sessions.forEach((session) => {
+    const value = sessionValues.get(session.sessionId) || "(not set)";
+    if (!groups.has(value)) groups.set(value, []);
+    groups.get(value)!.push(session);
+  });
+
+  return Array.from(groups.entries())
+    .map(([value, group]) => {
+      // Attention is only averaged over sessions that measured it
+      const attention = group.filter((s) => s.activeTime !== null);
+      return {
+        value,
+        sessions: weightedCount(group),
+        avgDepth: Math.round(
+          group.reduce((sum, s) => sum + s.maxScrollDepth, 0) / group.length
+        ),
+        completionRate: Math.round(
+          (group.filter((s) => s.maxScrollDepth >= 100).length / group.length) *
+            100
+        ),
+        avgTimeOnPage: Math.round(
+          group.reduce((sum, s) => sum + s.totalTimeOnPage, 0) /
+            group.length /
+            1000
+        ),
+        avgActiveTime: attention.length
+          ? Math.round(
+              attention.reduce((sum, s) => sum + (s.activeTime || 0), 0) /
+                attention.length /
+                1000
+            )
+          : 0,
+      };
+    })
+    .sort((a, b) => b.sessions - a.sessions);
+}
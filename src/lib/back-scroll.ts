@@ -0,0 +1,85 @@
+// Scroll-back aggregation for dashboard metrics
+import {
+  ScrollEventRow,
+  latestSessionSummariesByPage,
+  sampleWeight,
+  weightedCount,
+} from "@/lib/sessions";
+
+const BAND_SIZE = 10;
+
+export type BackScrollStats = {
+  page: string;
+  sessions: number;
+  avgReReadScore: number;
+  avgBackScrolls: number;
+  // Depth bands most often scrolled back over, e.g. "40-50%"
+  hotRanges: string[];
+  flagged: boolean;
+};
+
+// Per page re-read scores and where back-scrolling happens. A page is
+// flagged when its average score is well above the tracker's average.
+export function summarizeBackScrolling(
+  events: ScrollEventRow[],
+  minSessions = 3
+): BackScrollStats[] {
+  const byPage = latestSessionSummariesByPage(
+    events,
+    (event) => event.re_read_score != null
+  );
+
+  const pages = Array.from(byPage.entries()).map(([page, summaries]) => {
+    const bands = new Array(100 / BAND_SIZE).fill(0);
+    summaries.forEach((s) => {
+      (s.back_scrolls || []).forEach(({ from, to }) => {
+        const first = Math.floor(to / BAND_SIZE);
+        const last = Math.min(Math.ceil(from / BAND_SIZE), bands.length);
+        for (let band = first; band < last; band++) bands[band]++;
+      });
+    });
+
+    const hotRanges = bands
+      .map((count, band) => ({ count, band }))
+      .filter(({ count }) => count > 0)
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 3)
+      .map(({ band }) => `${band * BAND_SIZE}-${(band + 1) * BAND_SIZE}%`);
+
+    return {
+      page,
+      sessions: weightedCount(
+        summaries.map((s) => ({ weight: sampleWeight(s) }))
+      ),
+      avgReReadScore: Math.round(
+        summaries.reduce((sum, s) => sum + (s.re_read_score || 0), 0) /
+          summaries.length
+      ),
+      avgBackScrolls:
+        Math.round(
+          (summaries.reduce((sum, s) => sum + (s.back_scroll_count || 0), 0) /
+            summaries.length) *
+            10
+        ) / 10,
+      hotRanges,
+      flagged: false,
+    };
+  });
+
+  // Flag pages more than one standard deviation above the mean score,
+  // ignoring pages with too few recorded sessions to judge
+  const scored = pages.filter((p) => byPage.get(p.page)!.length >= minSessions);
+  if (scored.length > 1) {
+    const mean =
+      scored.reduce((sum, p) => sum + p.avgReReadScore, 0) / scored.length;
+    const stdDev = Math.sqrt(
+      scored.reduce((sum, p) => sum + (p.avgReReadScore - mean) ** 2, 0) /
+        scored.length
+    );
+    scored.forEach((p) => {
+      p.flagged = stdDev > 0 && p.avgReReadScore > mean + stdDev;
+    });
+  }
+
+  return pages.sort((a, b) => b.avgReReadScore - a.avgReReadScore);
+}
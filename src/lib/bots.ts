@@ -0,0 +1,198 @@
+// Bot and crawler classification, shared by /api/track (which flags events
+// as they arrive) and the dashboard (which also checks rows stored before
+// flagging existed)
+
+// User agent fragments of crawlers, monitors, link previewers, headless
+// browsers and HTTP libraries, after the patterns of the crawler-user-agents
+// and isbot projects. Matched case-insensitively; extend as new ones show up.
+export const BOT_UA_PATTERNS = [
+  // Generic self-descriptions
+  "bot\\b",
+  "[a-z]bot[^a-z]",
+  "crawl",
+  "spider",
+  "scrap(er|ing)",
+  "slurp",
+  "archiver",
+  "indexer",
+  "fetcher",
+  "monitor",
+  "checker",
+  "validator",
+  "preview",
+  // Search engines and SEO tools
+  "googlebot",
+  "google-inspectiontool",
+  "google-read-aloud",
+  "googleother",
+  "storebot-google",
+  "mediapartners-google",
+  "adsbot",
+  "apis-google",
+  "bingpreview",
+  "baiduspider",
+  "exabot",
+  "seznambot",
+  "petalbot",
+  "applebot",
+  "ahrefs",
+  "semrush",
+  "mj12bot",
+  "dotbot",
+  "rogerbot",
+  "screaming frog",
+  "sitebulb",
+  "lighthouse",
+  "pagespeed",
+  "chrome-lighthouse",
+  "gtmetrix",
+  "pingdom",
+  "uptimerobot",
+  "statuscake",
+  "site24x7",
+  "datadog",
+  "newrelicpinger",
+  // AI crawlers and assistants
+  "gptbot",
+  "chatgpt-user",
+  "oai-searchbot",
+  "claudebot",
+  "claude-web",
+  "anthropic-ai",
+  "perplexitybot",
+  "ccbot",
+  "bytespider",
+  "amazonbot",
+  "meta-externalagent",
+  "cohere-ai",
+  "diffbot",
+  // Link previews
+  "facebookexternalhit",
+  "facebookcatalog",
+  "twitterbot",
+  "linkedinbot",
+  "slackbot",
+  "discordbot",
+  "telegrambot",
+  "whatsapp",
+  "skypeuripreview",
+  "embedly",
+  "redditbot",
+  "iframely",
+  // Headless and automated browsers
+  "headless",
+  "phantomjs",
+  "slimerjs",
+  "puppeteer",
+  "playwright",
+  "selenium",
+  "webdriver",
+  "cypress",
+  "prerender",
+  "rendertron",
+  // HTTP clients and libraries
+  "^curl",
+  "^wget",
+  "python-requests",
+  "python-urllib",
+  "aiohttp",
+  "httpx",
+  "scrapy",
+  "go-http-client",
+  "java/",
+  "okhttp",
+  "apache-httpclient",
+  "node-fetch",
+  "axios",
+  "undici",
+  "libwww-perl",
+  "httpunit",
+  "postmanruntime",
+  "insomnia",
+];
+
+const BOT_UA_REGEX = new RegExp(BOT_UA_PATTERNS.join("|"), "i");
+
+// Real browsers the patterns above would catch, removed before matching
+// (Cubot phones put "CUBOT" in their user agent)
+const NOT_BOT_REGEX = /cubot/gi;
+
+export type BotReason =
+  | "user-agent"
+  | "webdriver"
+  | "zero-viewport"
+  | "scroll-speed";
+
+export const BOT_REASONS: Record<BotReason, string> = {
+  "user-agent": "Known bot user agent",
+  webdriver: "Automated browser (navigator.webdriver)",
+  "zero-viewport": "Zero-size viewport",
+  "scroll-speed": "Impossible scroll speed",
+};
+
+export function isBotUserAgent(ua?: string | null): boolean {
+  return !!ua && BOT_UA_REGEX.test(ua.replace(NOT_BOT_REGEX, ""));
+}
+
+// What the tracker reports that tells bots apart from visitors
+export type BotSignals = {
+  ua?: string | null;
+  width?: number | null;
+  height?: number | null;
+  webdriver?: boolean;
+  // From session summaries
+  maxScrollDepth?: number | null;
+  totalTimeOnPage?: number | null;
+  documentHeight?: number | null;
+};
+
+// Reaching the bottom of a page several screens tall within a second of
+// loading it takes a script, not a reader
+const SCROLL_SPEED_SCREENS = 3;
+const SCROLL_SPEED_MIN_TIME = 1000;
+const SCROLL_SPEED_DEPTH = 90;
+
+// The first reason the signals look automated, or null for a likely human
+export function detectBot(signals: BotSignals): BotReason | null {
+  if (isBotUserAgent(signals.ua)) return "user-agent";
+  if (signals.webdriver) return "webdriver";
+  if (signals.width === 0 || signals.height === 0) return "zero-viewport";
+  if (
+    signals.maxScrollDepth != null &&
+    signals.totalTimeOnPage != null &&
+    signals.documentHeight &&
+    signals.height &&
+    signals.maxScrollDepth >= SCROLL_SPEED_DEPTH &&
+    signals.totalTimeOnPage < SCROLL_SPEED_MIN_TIME &&
+    signals.documentHeight >= signals.height * SCROLL_SPEED_SCREENS
+  ) {
+    return "scroll-speed";
+  }
+  return null;
+}
+
+type FlaggableEvent = {
+  session_id?: string | null;
+  bot_reason?: string | null;
+  ua?: string | null;
+};
+
+function isFlagged(event: FlaggableEvent) {
+  return !!event.bot_reason || isBotUserAgent(event.ua);
+}
+
+// Drop bot traffic. A session counts as a bot's when any of its events was
+// flagged, so one giveaway late in a session excludes all of it.
+export function excludeBotTraffic<T extends FlaggableEvent>(events: T[]): T[] {
+  const botSessions = new Set<string>();
+  events.forEach((event) => {
+    if (event.session_id && isFlagged(event)) {
+      botSessions.add(event.session_id);
+    }
+  });
+  return events.filter(
+    (event) =>
+      !isFlagged(event) &&
+      !(event.session_id && botSessions.has(event.session_id))
+  );
+}
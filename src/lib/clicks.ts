@@ -0,0 +1,119 @@
+// CTA and outbound link click aggregation for dashboard metrics
+import {
+  ScrollEventRow,
+  SessionSummary,
+  pagePath,
+  sampleWeight,
+  weightedCount,
+} from "@/lib/sessions";
+
+const BAND_SIZE = 25;
+
+export type DepthBandStats = {
+  band: string;
+  // Sessions on the target's pages that scrolled into the band
+  reached: number;
+  // Of those, sessions that clicked while in the band
+  clicks: number;
+  clickThroughRate: number;
+};
+
+export type ClickStats = {
+  target: string;
+  kind: string;
+  label: string;
+  clicks: number;
+  sessions: number;
+  avgDepth: number;
+  bands: DepthBandStats[];
+};
+
+function bandIndex(depth: number) {
+  return Math.min(Math.floor(depth / BAND_SIZE), 100 / BAND_SIZE - 1);
+}
+
+// Per click target, how far visitors had scrolled when clicking and the
+// click-through rate of each depth band. Counts are scaled up by sample rate.
+export function summarizeClicks(
+  events: ScrollEventRow[],
+  sessions: SessionSummary[]
+): ClickStats[] {
+  const targets = new Map<
+    string,
+    {
+      kind: string;
+      label: string;
+      clicks: number;
+      depthSum: number;
+      pages: Set<string>;
+      // Session key -> depth bands clicked in
+      sessionBands: Map<string, { weight: number; bands: Set<number> }>;
+    }
+  >();
+
+  events.forEach((event) => {
+    if (event.event_type !== "click" || !event.click_target) return;
+    if (!targets.has(event.click_target)) {
+      targets.set(event.click_target, {
+        kind: event.click_kind || "cta",
+        label: event.click_label || "",
+        clicks: 0,
+        depthSum: 0,
+        pages: new Set(),
+        sessionBands: new Map(),
+      });
+    }
+    const target = targets.get(event.click_target)!;
+    const sessionKey = event.session_id || event.occurred_at;
+    const weight = sampleWeight(event);
+    target.clicks += weight;
+    target.depthSum += (event.scroll_depth || 0) * weight;
+    target.pages.add(pagePath(event.page_url));
+    if (!target.label && event.click_label) target.label = event.click_label;
+    if (!target.sessionBands.has(sessionKey)) {
+      target.sessionBands.set(sessionKey, { weight, bands: new Set() });
+    }
+    target.sessionBands
+      .get(sessionKey)!
+      .bands.add(bandIndex(event.scroll_depth || 0));
+  });
+
+  return Array.from(targets.entries())
+    .map(([name, target]) => {
+      const pageSessions = sessions.filter((s) => target.pages.has(s.page));
+      const bands = Array.from({ length: 100 / BAND_SIZE }, (_, i) => {
+        const clicks = weightedCount(
+          Array.from(target.sessionBands.values()).filter((clicked) =>
+            clicked.bands.has(i)
+          )
+        );
+        // Clicking sessions count as reached even if their summary is missing
+        const reached = Math.max(
+          weightedCount(
+            pageSessions.filter(
+              (s) => i === 0 || s.maxScrollDepth >= i * BAND_SIZE
+            )
+          ),
+          clicks
+        );
+        return {
+          band: `${i * BAND_SIZE}-${(i + 1) * BAND_SIZE}%`,
+          reached,
+          clicks,
+          clickThroughRate:
+            reached > 0 ? Math.round((clicks / reached) * 1000) / 10 : 0,
+        };
+      });
+
+      return {
+        target: name,
+        kind: target.kind,
+        label: target.label,
+        clicks: Math.round(target.clicks),
+        sessions: weightedCount(Array.from(target.sessionBands.values())),
+        avgDepth: Math.round(target.depthSum / target.clicks),
+        bands,
+      };
+    })
+    .sort((a, b) => b.clicks - a.clicks);
+}
@@ -0,0 +1,76 @@
+// Custom event aggregation for dashboard metrics
+import { ScrollEventRow, sampleWeight } from "@/lib/sessions";
+
+export type PropertyBreakdown = {
+  property: string;
+  values: { value: string; count: number }[];
+};
+
+export type CustomEventStats = {
+  name: string;
+  count: number;
+  sessions: number;
+  properties: PropertyBreakdown[];
+};
+
+// Count custom events by name, and for each property how often each value
+// was sent, scaled up by sample rate. Only the most common values of a
+// property are kept.
+export function summarizeCustomEvents(
+  events: ScrollEventRow[],
+  maxValues = 10
+): CustomEventStats[] {
+  const byName = new Map<
+    string,
+    {
+      count: number;
+      // Session ID -> weight
+      sessions: Map<string, number>;
+      properties: Map<string, Map<string, number>>;
+    }
+  >();
+
+  events.forEach((event) => {
+    if (event.event_type !== "custom" || !event.event_name) return;
+
+    if (!byName.has(event.event_name)) {
+      byName.set(event.event_name, {
+        count: 0,
+        sessions: new Map(),
+        properties: new Map(),
+      });
+    }
+    const stats = byName.get(event.event_name)!;
+    const weight = sampleWeight(event);
+    stats.count += weight;
+    if (event.session_id) stats.sessions.set(event.session_id, weight);
+
+    Object.entries(event.properties || {}).forEach(([property, value]) => {
+      if (!stats.properties.has(property)) {
+        stats.properties.set(property, new Map());
+      }
+      const values = stats.properties.get(property)!;
+      const key = String(value);
+      values.set(key, (values.get(key) || 0) + weight);
+    });
+  });
+
+  return Array.from(byName.entries())
+    .map(([name, stats]) => ({
+      name,
+      count: Math.round(stats.count),
+      sessions: Math.round(
+        Array.from(stats.sessions.values()).reduce((sum, w) => sum + w, 0)
+      ),
+      properties: Array.from(stats.properties.entries()).map(
+        ([property, values]) => ({
+          property,
+          values: Array.from(values.entries())
+            .map(([value, count]) => ({ value, count: Math.round(count) }))
+            .sort((a, b) => b.count - a.count)
+            .slice(0, maxValues),
+        })
+      ),
+    }))
+    .sort((a, b) => b.count - a.count);
+}
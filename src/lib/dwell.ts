@@ -0,0 +1,55 @@
+// Dwell histogram (scroll heatmap) data for dashboard metrics
+
+export const DWELL_BANDS = 20;
+
+// A row of the page_dwell_histograms view
+export type PageDwell = {
+  page: string;
+  // Bot sessions are summed separately; rows without the flag predate it
+  bot?: boolean;
+  sessions: number;
+  // Total active ms per 5% band, top of the page first
+  dwell: number[];
+};
+
+export type DwellBand = {
+  band: string;
+  avgTime: number;
+  // Share of the page's hottest band, 0-1
+  intensity: number;
+};
+
+// Sum the view's rows per page (human and bot rows, when both are kept),
+// busiest pages first
+export function mergePageDwell(rows: PageDwell[]): PageDwell[] {
+  const byPage = new Map<string, PageDwell>();
+  rows.forEach((row) => {
+    const page = byPage.get(row.page);
+    if (!page) {
+      byPage.set(row.page, {
+        page: row.page,
+        sessions: Number(row.sessions),
+        dwell: row.dwell.map(Number),
+      });
+      return;
+    }
+    page.sessions += Number(row.sessions);
+    page.dwell = page.dwell.map((ms, i) => ms + Number(row.dwell[i] || 0));
+  });
+  return Array.from(byPage.values()).sort((a, b) => b.sessions - a.sessions);
+}
+
+// Average seconds per session for each band, scaled for a heat strip
+export function toHeatStrip(page: PageDwell): DwellBand[] {
+  const size = 100 / DWELL_BANDS;
+  const averages = Array.from({ length: DWELL_BANDS }, (_, i) =>
+    page.sessions ? Number(page.dwell[i] || 0) / page.sessions / 1000 : 0
+  );
+  const max = Math.max(...averages, 0);
+
+  return averages.map((avg, i) => ({
+    band: `${i * size}-${(i + 1) * size}%`,
+    avgTime: Math.round(avg * 10) / 10,
+    intensity: max > 0 ? avg / max : 0,
+  }));
+}
@@ -0,0 +1,118 @@
+// A/B experiment comparison for dashboard metrics
+import { ScrollEventRow, SessionSummary, weightedCount } from "@/lib/sessions";
+
+// Two-sided 95% normal quantile
+const Z = 1.96;
+
+// A value with its 95% confidence interval
+export type Estimate = {
+  value: number;
+  low: number;
+  high: number;
+};
+
+export type VariantStats = {
+  variant: string;
+  sessions: number;
+  completionRate: Estimate;
+  avgDepth: Estimate;
+  // Seconds, over sessions that measured attention
+  avgActiveTime: Estimate;
+};
+
+export type ExperimentStats = {
+  experiment: string;
+  variants: VariantStats[];
+};
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+// Wilson score interval for a proportion, in percent
+function proportion(successes: number, n: number): Estimate {
+  if (n === 0) return { value: 0, low: 0, high: 0 };
+  const p = successes / n;
+  const denominator = 1 + (Z * Z) / n;
+  const centre = (p + (Z * Z) / (2 * n)) / denominator;
+  const margin =
+    (Z * Math.sqrt((p * (1 - p)) / n + (Z * Z) / (4 * n * n))) / denominator;
+  return {
+    value: round(p * 100),
+    low: round(Math.max(0, centre - margin) * 100),
+    high: round(Math.min(1, centre + margin) * 100),
+  };
+}
+
+// Normal approximation interval for a mean
+function mean(values: number[]): Estimate {
+  const n = values.length;
+  if (n === 0) return { value: 0, low: 0, high: 0 };
+  const avg = values.reduce((sum, v) => sum + v, 0) / n;
+  const variance =
+    n > 1 ? values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (n - 1) : 0;
+  const margin = Z * Math.sqrt(variance / n);
+  return {
+    value: round(avg),
+    low: round(Math.max(0, avg - margin)),
+    high: round(avg + margin),
+  };
+}
+
+// Completion, depth and attention per variant of each experiment. A session
+// belongs to the variant its events were tagged with. Session counts are
+// scaled up by sample rate; intervals use the sessions actually recorded.
+export function summarizeExperiments(
+  events: ScrollEventRow[],
+  sessions: SessionSummary[]
+): ExperimentStats[] {
+  const assignments = new Map<
+    string,
+    { experiment: string; variant: string }
+  >();
+  events.forEach((event) => {
+    if (!event.session_id || !event.experiment || !event.variant) return;
+    if (!assignments.has(event.session_id)) {
+      assignments.set(event.session_id, {
+        experiment: event.experiment,
+        variant: event.variant,
+      });
+    }
+  });
+
+  const experiments = new Map<string, Map<string, SessionSummary[]>>();
+  sessions.forEach((session) => {
+    const assignment = assignments.get(session.sessionId);
+    if (!assignment) return;
+    if (!experiments.has(assignment.experiment)) {
+      experiments.set(assignment.experiment, new Map());
+    }
+    const variants = experiments.get(assignment.experiment)!;
+    if (!variants.has(assignment.variant)) variants.set(assignment.variant, []);
+    variants.get(assignment.variant)!.push(session);
+  });
+
+  return Array.from(experiments.entries())
+    .map(([experiment, variants]) => ({
+      experiment,
+      variants: Array.from(variants.entries())
+        .map(([variant, group]) => ({
+          variant,
+          sessions: weightedCount(group),
+          completionRate: proportion(
+            group.filter((s) => s.maxScrollDepth >= 100).length,
+            group.length
+          ),
+          avgDepth: mean(group.map((s) => s.maxScrollDepth)),
+          avgActiveTime: mean(
+            group
+              .filter((s) => s.activeTime !== null)
+              .map((s) => (s.activeTime || 0) / 1000)
+          ),
+        }))
+        .sort((a, b) => a.variant.localeCompare(b.variant)),
+    }))
+    .sort(
+      (a, b) =>
+        b.variants.reduce((sum, v) => sum + v.sessions, 0) -
+        a.variants.reduce((sum, v) => sum + v.sessions, 0)
+    );
+}
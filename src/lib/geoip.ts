@@ -0,0 +1,349 @@
+import { readFile } from "node:fs/promises";
+import { isIP } from "node:net";
+
+// Offline IP geolocation for /api/track. Addresses are looked up in a local
+// database file named by GEOIP_DATABASE, never sent anywhere. Two formats
+// are read:
+// - MaxMind DB (.mmdb), such as GeoLite2 Country/City or DB-IP Lite
+// - CSV ranges (.csv), one per line: first address, last address, ISO
+//   country code and optionally a region, as in DB-IP's IP to Country Lite
+// Without a database, events are stored without a location.
+
+export type GeoLocation = {
+  // ISO 3166-1 alpha-2
+  country: string;
+  region: string | null;
+};
+
+type GeoDatabase = (address: number[]) => GeoLocation | null;
+
+// Address bytes (4 for IPv4, 16 for IPv6); IPv4-mapped IPv6 addresses come
+// back as IPv4. Null when the string isn't an address.
+export function parseIp(ip: string): number[] | null {
+  const address = ip
+    .trim()
+    .replace(/^\[|\]$/g, "")
+    .replace(/%.*$/, "");
+  const version = isIP(address);
+  if (version === 4) return address.split(".").map(Number);
+  if (version !== 6) return null;
+
+  let head = address;
+  let tail: number[] = [];
+  // Trailing dotted IPv4, as in ::ffff:1.2.3.4
+  const dotted = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    head = dotted[1].endsWith("::") ? dotted[1] : dotted[1].slice(0, -1);
+    tail = dotted[2].split(".").map(Number);
+  }
+  const groups = (part: string) =>
+    part ? part.split(":").map((group) => parseInt(group, 16)) : [];
+  const [left, right] = head.split("::");
+  const words = groups(left);
+  const rightWords = right === undefined ? [] : groups(right);
+  const missing = 8 - tail.length / 2 - words.length - rightWords.length;
+  for (let i = 0; i < missing; i++) words.push(0);
+  words.push(...rightWords);
+
+  const bytes: number[] = [];
+  words.forEach((word) => bytes.push(word >> 8, word & 0xff));
+  bytes.push(...tail);
+
+  const mapped = bytes.slice(0, 12).every((b, i) => b === (i < 10 ? 0 : 0xff));
+  return mapped ? bytes.slice(12) : bytes;
+}
+
+function toLocation(country: unknown, region: unknown): GeoLocation | null {
+  if (typeof country !== "string" || !/^[A-Z]{2}$/i.test(country)) {
+    return null;
+  }
+  // ZZ is "unknown" in DB-IP and IP2Location
+  const code = country.toUpperCase();
+  if (code === "ZZ") return null;
+  return {
+    country: code,
+    region: typeof region === "string" && region ? region : null,
+  };
+}
+
+// MaxMind DB format: a binary search tree over address bits whose leaves
+// point into a data section of typed values
+// (https://maxmind.github.io/MaxMind-DB/)
+
+const METADATA_MARKER = Buffer.from("\xab\xcd\xefMaxMind.com", "latin1");
+
+function openMmdb(buffer: Buffer): GeoDatabase {
+  const markerAt = buffer.lastIndexOf(METADATA_MARKER);
+  if (markerAt < 0) throw new Error("Not a MaxMind DB file");
+  const metadataStart = markerAt + METADATA_MARKER.length;
+  const metadata = decode(buffer, metadataStart, metadataStart).value as {
+    node_count: number;
+    record_size: number;
+    ip_version: number;
+  };
+  const nodeCount = metadata.node_count;
+  const recordSize = metadata.record_size;
+  if (![24, 28, 32].includes(recordSize)) {
+    throw new Error(`Unsupported MaxMind DB record size ${recordSize}`);
+  }
+  const treeSize = (recordSize / 4) * nodeCount;
+  const dataStart = treeSize + 16;
+
+  function readRecord(node: number, bit: number): number {
+    const offset = node * (recordSize / 4);
+    if (recordSize === 24) return buffer.readUIntBE(offset + bit * 3, 3);
+    if (recordSize === 32) return buffer.readUInt32BE(offset + bit * 4);
+    const middle = buffer[offset + 3];
+    return bit
+      ? (middle & 0x0f) * 0x1000000 + buffer.readUIntBE(offset + 4, 3)
+      : (middle >> 4) * 0x1000000 + buffer.readUIntBE(offset, 3);
+  }
+
+  // IPv4 addresses sit under ::/96 in an IPv6 tree
+  let ipv4Start = 0;
+  if (metadata.ip_version === 6) {
+    for (let i = 0; i < 96 && ipv4Start < nodeCount; i++) {
+      ipv4Start = readRecord(ipv4Start, 0);
+    }
+  }
+
+  return (address) => {
+    if (address.length === 16 && metadata.ip_version !== 6) return null;
+    let node = address.length === 4 ? ipv4Start : 0;
+    for (let i = 0; i < address.length * 8 && node < nodeCount; i++) {
+      node = readRecord(node, (address[i >> 3] >> (7 - (i & 7))) & 1);
+    }
+    // Equal to the node count means no data for the address
+    if (node <= nodeCount) return null;
+
+    const record = decode(buffer, dataStart, treeSize + (node - nodeCount))
+      .value as {
+      country?: { iso_code?: string };
+      registered_country?: { iso_code?: string };
+      subdivisions?: { iso_code?: string; names?: Record<string, string> }[];
+    };
+    const subdivision = record?.subdivisions?.[0];
+    return toLocation(
+      record?.country?.iso_code || record?.registered_country?.iso_code,
+      subdivision?.names?.en || subdivision?.iso_code
+    );
+  };
+}
+
+// Decode the value at `offset`; pointers are relative to `base`
+function decode(
+  buffer: Buffer,
+  base: number,
+  offset: number
+): { value: unknown; next: number } {
+  const control = buffer[offset++];
+  let type = control >> 5;
+
+  if (type === 1) {
+    const size = (control >> 3) & 3;
+    const high = control & 7;
+    let pointer: number;
+    if (size === 0) pointer = high * 0x100 + buffer[offset];
+    else if (size === 1) {
+      pointer = high * 0x10000 + buffer.readUInt16BE(offset) + 2048;
+    } else if (size === 2) {
+      pointer = high * 0x1000000 + buffer.readUIntBE(offset, 3) + 526336;
+    } else pointer = buffer.readUInt32BE(offset);
+    return {
+      value: decode(buffer, base, base + pointer).value,
+      next: offset + size + 1,
+    };
+  }
+
+  if (type === 0) type = 7 + buffer[offset++];
+
+  let size = control & 0x1f;
+  if (size === 29) size = 29 + buffer[offset++];
+  else if (size === 30) {
+    size = 285 + buffer.readUInt16BE(offset);
+    offset += 2;
+  } else if (size === 31) {
+    size = 65821 + buffer.readUIntBE(offset, 3);
+    offset += 3;
+  }
+
+  switch (type) {
+    case 2: // UTF-8 string
+      return {
+        value: buffer.toString("utf8", offset, offset + size),
+        next: offset + size,
+      };
+    case 3: // double
+      return { value: buffer.readDoubleBE(offset), next: offset + 8 };
+    case 4: // bytes
+      return {
+        value: buffer.subarray(offset, offset + size),
+        next: offset + size,
+      };
+    // Unsigned integers of 16 to 128 bits; precision past 2^53 doesn't
+    // matter for anything read here
+    case 5:
+    case 6:
+    case 9:
+    case 10: {
+      let value = 0;
+      for (let i = 0; i < size; i++) value = value * 256 + buffer[offset + i];
+      return { value, next: offset + size };
+    }
+    case 8: // int32
+      return {
+        value: size ? buffer.readIntBE(offset, size) : 0,
+        next: offset + size,
+      };
+    // Map
+    case 7: {
+      const map: Record<string, unknown> = {};
+      let next = offset;
+      for (let i = 0; i < size; i++) {
+        const key = decode(buffer, base, next);
+        const value = decode(buffer, base, key.next);
+        map[String(key.value)] = value.value;
+        next = value.next;
+      }
+      return { value: map, next };
+    }
+    // Array
+    case 11: {
+      const items: unknown[] = [];
+      let next = offset;
+      for (let i = 0; i < size; i++) {
+        const item = decode(buffer, base, next);
+        items.push(item.value);
+        next = item.next;
+      }
+      return { value: items, next };
+    }
+    case 14: // boolean, held in the size
+      return { value: size !== 0, next: offset };
+    case 15: // float
+      return { value: buffer.readFloatBE(offset), next: offset + 4 };
+    default:
+      throw new Error(`Unsupported MaxMind DB data type ${type}`);
+  }
+}
+
+// CSV ranges
+
+type Range<T> = { start: T; end: T; location: GeoLocation };
+
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') quoted = true;
+    else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else field += char;
+  }
+  fields.push(field);
+  return fields.map((value) => value.trim());
+}
+
+function ipv4Number(address: number[]): number {
+  return address.reduce((n, byte) => n * 256 + byte, 0);
+}
+
+function ipv6Number(address: number[]): bigint {
+  return BigInt(
+    "0x" + address.map((b) => b.toString(16).padStart(2, "0")).join("")
+  );
+}
+
+function findRange<T>(ranges: Range<T>[], value: T): GeoLocation | null {
+  let low = 0;
+  let high = ranges.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (value < ranges[mid].start) high = mid - 1;
+    else if (value > ranges[mid].end) low = mid + 1;
+    else return ranges[mid].location;
+  }
+  return null;
+}
+
+function openCsv(text: string): GeoDatabase {
+  const ipv4: Range<number>[] = [];
+  const ipv6: Range<bigint>[] = [];
+  // Rows share location objects, so a large file doesn't hold a copy per row
+  const locations = new Map<string, GeoLocation>();
+
+  text.split(/\r?\n/).forEach((line) => {
+    if (!line.trim()) return;
+    const [first, last, country, region] = splitCsvLine(line);
+    const start = parseIp(first);
+    const end = parseIp(last);
+    const parsed = toLocation(country, region);
+    // Header rows and unknown ranges fall out here
+    if (!start || !end || !parsed || start.length !== end.length) return;
+
+    const key = `${parsed.country}|${parsed.region || ""}`;
+    if (!locations.has(key)) locations.set(key, parsed);
+    const location = locations.get(key);
+    if (start.length === 4) {
+      ipv4.push({ start: ipv4Number(start), end: ipv4Number(end), location });
+    } else {
+      ipv6.push({ start: ipv6Number(start), end: ipv6Number(end), location });
+    }
+  });
+
+  ipv4.sort((a, b) => a.start - b.start);
+  ipv6.sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+
+  return (address) =>
+    address.length === 4
+      ? findRange(ipv4, ipv4Number(address))
+      : findRange(ipv6, ipv6Number(address));
+}
+
+let database: Promise<GeoDatabase | null> | null = null;
+
+// Loaded on first use and kept for the life of the process; a missing or
+// unreadable file is reported once and leaves locations empty
+function getDatabase(): Promise<GeoDatabase | null> {
+  if (!database) {
+    const path = process.env.GEOIP_DATABASE;
+    database = !path
+      ? Promise.resolve(null)
+      : readFile(path)
+          .then((file) =>
+            path.toLowerCase().endsWith(".csv")
+              ? openCsv(file.toString("utf8"))
+              : openMmdb(file)
+          )
+          .catch((error) => {
+            console.error("Error loading GeoIP database:", error);
+            return null;
+          });
+  }
+  return database;
+}
+
+// Country and region for a client IP, or null when it can't be placed
+export async function lookupLocation(
+  ip: string | null
+): Promise<GeoLocation | null> {
+  const address = parseIp(ip || "");
+  if (!address) return null;
+  const lookup = await getDatabase();
+  if (!lookup) return null;
+  try {
+    return lookup(address);
+  } catch (error) {
+    console.error("GeoIP lookup error:", error);
+    return null;
+  }
+}
@@ -0,0 +1,65 @@
+import { createHmac, randomBytes } from "node:crypto";
+import { supabaseAdmin } from "@/lib/supabase";
+
+// Raw IP addresses are never stored. Each event keeps a keyed hash of the
+// client IP instead, good for counting unique visitors within a day and
+// nothing more: the key is a random salt that rotates at midnight UTC and
+// is deleted once the next day's exists, so hashes can't be linked across
+// days or reversed by trying every address.
+
+let cachedSalt: { day: string; salt: string } | null = null;
+
+async function getDailySalt(day: string): Promise<string | null> {
+  if (cachedSalt?.day === day) return cachedSalt.salt;
+
+  // Every instance has to agree on the day's salt: offer a fresh one and
+  // read back whichever was stored first
+  const { error: insertErr } = await supabaseAdmin
+    .from("ip_hash_salts")
+    .upsert(
+      { day, salt: randomBytes(32).toString("hex") },
+      { onConflict: "day", ignoreDuplicates: true }
+    );
+  if (insertErr) {
+    console.error("Supabase error creating IP hash salt:", insertErr);
+    return null;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("ip_hash_salts")
+    .select("salt")
+    .eq("day", day)
+    .single();
+  if (error || !data) {
+    console.error("Supabase error loading IP hash salt:", error);
+    return null;
+  }
+
+  const { error: deleteErr } = await supabaseAdmin
+    .from("ip_hash_salts")
+    .delete()
+    .lt("day", day);
+  if (deleteErr) {
+    console.error("Supabase error deleting old IP hash salts:", deleteErr);
+  }
+
+  cachedSalt = { day, salt: data.salt };
+  return data.salt;
+}
+
+// Hash of the IP, scoped to one tracker so the same visitor can't be
+// matched across sites. Null when there's no IP or no salt; the raw
+// address is never a fallback.
+export async function hashIp(
+  ip: string | null,
+  trackerId: string,
+  now = new Date()
+): Promise<string | null> {
+  if (!ip) return null;
+  const salt = await getDailySalt(now.toISOString().slice(0, 10));
+  if (!salt) return null;
+  return createHmac("sha256", salt)
+    .update(`${trackerId}:${ip}`)
+    .digest("hex")
+    .slice(0, 32);
+}
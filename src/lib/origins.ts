@@ -0,0 +1,36 @@
+// Allowed-origin matching for /api/track
+
+// Reduce an entered domain ("https://www.example.com/", "*.Example.com:443")
+// to the host pattern that is matched: lowercase, no scheme, port or path
+export function normalizeOriginPattern(pattern: string): string {
+  return pattern
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, "")
+    .replace(/[/?#].*$/, "")
+    .replace(/:\d+$/, "")
+    .replace(/\.$/, "");
+}
+
+// Hostname of a URL or Origin header value, null when it can't be parsed
+export function hostFromUrl(value: string | null | undefined): string | null {
+  if (!value) return null;
+  try {
+    return new URL(value).hostname.toLowerCase() || null;
+  } catch {
+    return null;
+  }
+}
+
+// "example.com" only matches that host; "*.example.com" matches any
+// subdomain but not example.com itself; "*" matches everything. An empty
+// list allows every host, so trackers without a list keep working.
+export function isHostAllowed(host: string, patterns: string[]): boolean {
+  if (patterns.length === 0) return true;
+  return patterns.some((raw) => {
+    const pattern = normalizeOriginPattern(raw);
+    if (pattern === "*") return true;
+    if (pattern.startsWith("*.")) return host.endsWith(pattern.slice(1));
+    return host === pattern;
+  });
+}
@@ -0,0 +1,118 @@
+import { createRedisStore } from "@/lib/redis-store";
+
+// Fixed-window rate limiting for /api/track. Counters live in a store so
+// clustered deployments can share them; single-node ones keep them in memory.
+
+export type RateLimitStore = {
+  // Add `cost` to the counter for `key` in the window starting at
+  // `windowStart`, and return the new count
+  increment(
+    key: string,
+    cost: number,
+    windowStart: number,
+    windowMs: number
+  ): Promise<number>;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  remaining: number;
+  // Seconds until the window resets, for Retry-After
+  retryAfter: number;
+};
+
+export const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+// Entries are dropped once their window has passed; the sweep runs only
+// when the map has grown, so quiet deployments never pay for it
+const MEMORY_SWEEP_SIZE = 10000;
+
+export function createMemoryStore(): RateLimitStore {
+  const counters = new Map<string, { count: number; expiresAt: number }>();
+
+  return {
+    async increment(key, cost, windowStart, windowMs) {
+      const now = Date.now();
+      if (counters.size >= MEMORY_SWEEP_SIZE) {
+        counters.forEach((entry, k) => {
+          if (entry.expiresAt <= now) counters.delete(k);
+        });
+      }
+
+      const id = `${key}:${windowStart}`;
+      const entry = counters.get(id) || {
+        count: 0,
+        expiresAt: windowStart + windowMs,
+      };
+      entry.count += cost;
+      counters.set(id, entry);
+      return entry.count;
+    },
+  };
+}
+
+let defaultStore: RateLimitStore | null = null;
+
+// Redis when RATE_LIMIT_REDIS_URL is set, else memory
+export function getRateLimitStore(): RateLimitStore {
+  if (!defaultStore) {
+    const redisUrl = process.env.RATE_LIMIT_REDIS_URL;
+    defaultStore = redisUrl ? createRedisStore(redisUrl) : createMemoryStore();
+  }
+  return defaultStore;
+}
+
+// Count `cost` against `limit` per window for `key`. A limit of 0 (or a
+// misconfigured NaN) turns the check off. Store failures let the request
+// through: losing analytics to a limiter outage is worse than a burst of
+// extra rows.
+export async function checkRateLimit(
+  store: RateLimitStore,
+  key: string,
+  limit: number,
+  cost = 1,
+  windowMs = RATE_LIMIT_WINDOW_MS
+): Promise<RateLimitResult> {
+  const now = Date.now();
+  const windowStart = now - (now % windowMs);
+  const retryAfter = Math.max(
+    1,
+    Math.ceil((windowStart + windowMs - now) / 1000)
+  );
+  if (!(limit > 0)) return { allowed: true, remaining: Infinity, retryAfter };
+
+  let count: number;
+  try {
+    count = await store.increment(key, cost, windowStart, windowMs);
+  } catch (error) {
+    console.error("Rate limit store error:", error);
+    return { allowed: true, remaining: limit, retryAfter };
+  }
+
+  return {
+    allowed: count <= limit,
+    remaining: Math.max(limit - count, 0),
+    retryAfter,
+  };
+}
+
+// Only addresses the deployment's own proxies recorded can be trusted;
+// anything further left in X-Forwarded-For is whatever the client sent.
+// CLIENT_IP_HEADER names a header the edge overwrites with the client
+// address (x-real-ip, cf-connecting-ip, ...). Otherwise TRUSTED_PROXY_HOPS
+// proxies (default 1) are taken to append to X-Forwarded-For, so the client
+// is that many entries from the right; 0 turns addresses off. Null when
+// there's no address, which callers must not count as one shared client.
+export function getClientIp(headers: Headers): string | null {
+  const header = process.env.CLIENT_IP_HEADER;
+  if (header) return headers.get(header)?.split(",")[0].trim() || null;
+
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 1);
+  const forwarded = (headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (!(hops > 0) || forwarded.length === 0) return null;
+  // Fewer entries than hops means the outer proxies sent none of their own
+  return forwarded[Math.max(forwarded.length - hops, 0)];
+}
@@ -0,0 +1,85 @@
+// Reading-time estimates and read completion for dashboard metrics
+import {
+  ScrollEventRow,
+  latestSessionSummariesByPage,
+  sampleWeight,
+  weightedCount,
+} from "@/lib/sessions";
+
+// Average silent reading speed for web copy
+export const WORDS_PER_MINUTE = 230;
+
+// A session counts as a full read at this completion or above
+const READ_THRESHOLD = 80;
+
+// Expected time in ms to read a page of wordCount words
+export function expectedReadingTime(wordCount: number): number {
+  return Math.round((wordCount / WORDS_PER_MINUTE) * 60 * 1000);
+}
+
+export type ReadCompletionStats = {
+  page: string;
+  sessions: number;
+  wordCount: number;
+  documentHeight: number;
+  expectedTime: number;
+  avgActiveTime: number;
+  avgDepth: number;
+  // Share of the page read: attention relative to expected reading time,
+  // capped at 1, times the depth reached
+  readCompletion: number;
+  // Percentage of sessions at or above READ_THRESHOLD completion
+  readRate: number;
+};
+
+export function summarizeReadCompletion(
+  events: ScrollEventRow[]
+): ReadCompletionStats[] {
+  const byPage = latestSessionSummariesByPage(
+    events,
+    (event) => !!event.expected_read_time
+  );
+
+  const average = (values: number[]) =>
+    values.reduce((sum, v) => sum + v, 0) / values.length;
+
+  return Array.from(byPage.entries())
+    .map(([page, summaries]) => {
+      const completions = summaries.map((s) => {
+        // Older summaries without attention time fall back to time on page
+        const attention = s.active_time ?? s.total_time_on_page ?? 0;
+        const timeRatio = Math.min(attention / s.expected_read_time!, 1);
+        const depth = s.max_scroll_depth ?? s.scroll_depth;
+        return timeRatio * depth;
+      });
+
+      return {
+        page,
+        sessions: weightedCount(
+          summaries.map((s) => ({ weight: sampleWeight(s) }))
+        ),
+        wordCount: Math.round(average(summaries.map((s) => s.word_count || 0))),
+        documentHeight: Math.round(
+          average(summaries.map((s) => s.document_height || 0))
+        ),
+        expectedTime: Math.round(
+          average(summaries.map((s) => s.expected_read_time!)) / 1000
+        ),
+        avgActiveTime: Math.round(
+          average(
+            summaries.map((s) => s.active_time ?? s.total_time_on_page ?? 0)
+          ) / 1000
+        ),
+        avgDepth: Math.round(
+          average(summaries.map((s) => s.max_scroll_depth ?? s.scroll_depth))
+        ),
+        readCompletion: Math.round(average(completions)),
+        readRate: Math.round(
+          (completions.filter((c) => c >= READ_THRESHOLD).length /
+            summaries.length) *
+            100
+        ),
+      };
+    })
+    .sort((a, b) => b.sessions - a.sessions);
+}
@@ -0,0 +1,183 @@
+import { Socket, connect as connectTcp } from "node:net";
+import { connect as connectTls } from "node:tls";
+import { createHash } from "node:crypto";
+import type { RateLimitStore } from "@/lib/rate-limit";
+
+// Rate limit store for anything speaking the Redis protocol (Redis, Valkey,
+// KeyDB, Dragonfly, ...), so clustered deployments share one set of
+// counters. Only the handful of commands the limiter needs are supported.
+
+type Reply = string | number | null | Error | Reply[];
+
+type PendingReply = {
+  resolve: (reply: Reply) => void;
+  reject: (error: Error) => void;
+};
+
+// A limiter that hangs would hold up every tracking request behind it
+const COMMAND_TIMEOUT_MS = 1000;
+
+function encodeCommand(args: string[]): string {
+  return (
+    `*${args.length}\r\n` +
+    args.map((arg) => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join("")
+  );
+}
+
+// Parse one reply starting at `start`; null when it hasn't fully arrived
+function parseReply(
+  buffer: Buffer,
+  start: number
+): { value: Reply; end: number } | null {
+  const lineEnd = buffer.indexOf("\r\n", start);
+  if (lineEnd < 0) return null;
+  const line = buffer.toString("utf8", start + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (String.fromCharCode(buffer[start])) {
+    case "+":
+      return { value: line, end: next };
+    case "-":
+      return { value: new Error(line), end: next };
+    case ":":
+      return { value: Number(line), end: next };
+    case "$": {
+      const length = Number(line);
+      if (length < 0) return { value: null, end: next };
+      if (buffer.length < next + length + 2) return null;
+      return {
+        value: buffer.toString("utf8", next, next + length),
+        end: next + length + 2,
+      };
+    }
+    case "*": {
+      const count = Number(line);
+      if (count < 0) return { value: null, end: next };
+      const items: Reply[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position);
+        if (!item) return null;
+        items.push(item.value);
+        position = item.end;
+      }
+      return { value: items, end: position };
+    }
+    default:
+      throw new Error("Unexpected Redis reply");
+  }
+}
+
+// A single lazily opened connection; replies arrive in command order.
+// redis://[user:password@]host[:port][/db], or rediss:// for TLS.
+function createRedisClient(url: string) {
+  const target = new URL(url);
+  let socket: Socket | null = null;
+  let buffer = Buffer.alloc(0);
+  const pending: PendingReply[] = [];
+
+  function fail(error: Error) {
+    socket = null;
+    buffer = Buffer.alloc(0);
+    pending.splice(0).forEach((reply) => reply.reject(error));
+  }
+
+  function onData(chunk: Buffer) {
+    buffer = Buffer.concat([buffer, chunk]);
+    let parsed: { value: Reply; end: number } | null;
+    try {
+      while (pending.length && (parsed = parseReply(buffer, 0))) {
+        buffer = buffer.subarray(parsed.end);
+        const reply = pending.shift();
+        if (parsed.value instanceof Error) reply.reject(parsed.value);
+        else reply.resolve(parsed.value);
+      }
+    } catch (error) {
+      socket?.destroy();
+      fail(error as Error);
+    }
+  }
+
+  function connect(): Socket {
+    const port = Number(target.port) || 6379;
+    const host = target.hostname;
+    const s =
+      target.protocol === "rediss:"
+        ? connectTls({ host, port, servername: host })
+        : connectTcp({ host, port });
+    s.setNoDelay(true);
+    s.on("data", onData);
+    s.on("error", (error) => {
+      if (socket === s) fail(error);
+    });
+    s.on("close", () => {
+      if (socket === s) fail(new Error("Redis connection closed"));
+    });
+    socket = s;
+
+    // Queued ahead of everything else; if either fails, so does every
+    // command waiting behind it
+    const setup = {
+      resolve: () => {},
+      reject: (error: Error) => {
+        s.destroy();
+        fail(error);
+      },
+    };
+    if (target.password) {
+      const auth = [decodeURIComponent(target.password)];
+      if (target.username) auth.unshift(decodeURIComponent(target.username));
+      write(["AUTH", ...auth], setup);
+    }
+    const db = target.pathname.slice(1);
+    if (db) write(["SELECT", db], setup);
+    return s;
+  }
+
+  function write(args: string[], reply: PendingReply) {
+    // Connect first so AUTH and SELECT are queued ahead of this command
+    const s = socket || connect();
+    pending.push(reply);
+    s.write(encodeCommand(args));
+  }
+
+  function command(args: string[]): Promise<Reply> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        // Replies are matched by order, so a lost one poisons the
+        // connection: drop it and start over on the next command
+        socket?.destroy();
+        fail(new Error("Redis command timed out"));
+      }, COMMAND_TIMEOUT_MS);
+      write(args, {
+        resolve: (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+    });
+  }
+
+  return { command };
+}
+
+export function createRedisStore(url: string): RateLimitStore {
+  const client = createRedisClient(url);
+
+  return {
+    async increment(key, cost, windowStart, windowMs) {
+      // Keys carry client IPs, which shouldn't be readable on the server
+      const hashed = createHash("sha256").update(key).digest("hex");
+      const id = `scrollsensie:ratelimit:${hashed}:${windowStart}`;
+      const [count] = await Promise.all([
+        client.command(["INCRBY", id, String(cost)]),
+        client.command(["PEXPIREAT", id, String(windowStart + windowMs)]),
+      ]);
+      return Number(count);
+    },
+  };
+}
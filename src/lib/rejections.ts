@@ -0,0 +1,53 @@
+// Rejected event counts for dashboard metrics
+
+// A row of the rejected_events table
+export type RejectedEventRow = {
+  day: string;
+  reason: string;
+  host: string;
+  count: number;
+};
+
+export type RejectedHost = {
+  host: string;
+  reason: string;
+  count: number;
+  lastSeen: string;
+};
+
+export type RejectionSummary = {
+  total: number;
+  hosts: RejectedHost[];
+};
+
+export const REJECTION_REASONS: Record<string, string> = {
+  origin: "Origin not allowed",
+};
+
+// Total rejected events per host and reason, most rejected first
+export function summarizeRejections(
+  rows: RejectedEventRow[]
+): RejectionSummary {
+  const byHost = new Map<string, RejectedHost>();
+  let total = 0;
+
+  rows.forEach((row) => {
+    const count = Number(row.count) || 0;
+    total += count;
+    const key = `${row.reason} ${row.host}`;
+    const entry = byHost.get(key) || {
+      host: row.host,
+      reason: row.reason,
+      count: 0,
+      lastSeen: row.day,
+    };
+    entry.count += count;
+    if (row.day > entry.lastSeen) entry.lastSeen = row.day;
+    byHost.set(key, entry);
+  });
+
+  return {
+    total,
+    hosts: Array.from(byHost.values()).sort((a, b) => b.count - a.count),
+  };
+}
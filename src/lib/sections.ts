@@ -0,0 +1,91 @@
+// Section visibility aggregation for dashboard metrics
+import {
+  ScrollEventRow,
+  SessionSummary,
+  pagePath,
+  sampleWeight,
+  weightedCount,
+} from "@/lib/sessions";
+
+export type SectionStats = {
+  section: string;
+  viewers: number;
+  visibilityRate: number;
+  avgVisibleTime: number;
+  avgFirstSeenAt: number;
+  avgDepth: number;
+};
+
+type SectionView = {
+  visibleTime: number;
+  firstSeenAt: number;
+  depth: number;
+  weight: number;
+};
+
+// Per page, how many sessions saw each section and how long it stayed on
+// screen. Times are returned in seconds.
+export function summarizeSections(
+  events: ScrollEventRow[],
+  sessions: SessionSummary[]
+): Record<string, SectionStats[]> {
+  // The tracker resends cumulative section data every time the tab is
+  // hidden, so keep one view per session and section
+  const views = new Map<string, Map<string, Map<string, SectionView>>>();
+
+  events.forEach((event) => {
+    if (event.event_type !== "section" || !event.section_name) return;
+    const page = pagePath(event.page_url);
+    const sessionKey = event.session_id || event.occurred_at;
+
+    if (!views.has(page)) views.set(page, new Map());
+    const pageViews = views.get(page)!;
+    if (!pageViews.has(event.section_name)) {
+      pageViews.set(event.section_name, new Map());
+    }
+    const sectionViews = pageViews.get(event.section_name)!;
+
+    const existing = sectionViews.get(sessionKey);
+    const view = {
+      visibleTime: event.visible_time || 0,
+      firstSeenAt: event.time_on_page || 0,
+      depth: event.scroll_depth || 0,
+      weight: sampleWeight(event),
+    };
+    if (!existing || view.visibleTime > existing.visibleTime) {
+      sectionViews.set(sessionKey, view);
+    }
+  });
+
+  const sessionsPerPage = sessions.reduce((acc, s) => {
+    acc[s.page] = (acc[s.page] || 0) + s.weight;
+    return acc;
+  }, {} as Record<string, number>);
+
+  const result: Record<string, SectionStats[]> = {};
+  views.forEach((pageViews, page) => {
+    result[page] = Array.from(pageViews.entries())
+      .map(([section, sectionViews]) => {
+        const list = Array.from(sectionViews.values());
+        const viewers = weightedCount(list);
+        const avg = (pick: (v: SectionView) => number) =>
+          list.reduce((sum, v) => sum + pick(v), 0) / list.length;
+        return {
+          section,
+          viewers,
+          visibilityRate: Math.min(
+            100,
+            Math.round(
+              (viewers / Math.max(sessionsPerPage[page] || 0, 1)) * 100
+            )
+          ),
+          avgVisibleTime: Math.round(avg((v) => v.visibleTime) / 1000),
+          avgFirstSeenAt: Math.round(avg((v) => v.firstSeenAt) / 1000),
+          avgDepth: Math.round(avg((v) => v.depth)),
+        };
+      })
+      .sort((a, b) => a.avgDepth - b.avgDepth);
+  });
+
+  return result;
+}
@@ -0,0 +1,179 @@
+// Session aggregation for dashboard metrics
+
+export type ScrollEventRow = {
+  occurred_at: string;
+  event_type?: string | null;
+  scroll_depth: number;
+  page_url?: string | null;
+  milestone?: number | null;
+  section_name?: string | null;
+  visible_time?: number | null;
+  event_name?: string | null;
+  back_scroll_count?: number | null;
+  back_scrolls?: { from: number; to: number }[] | null;
+  re_read_score?: number | null;
+  document_height?: number | null;
+  word_count?: number | null;
+  expected_read_time?: number | null;
+  lcp?: number | null;
+  cls?: number | null;
+  inp?: number | null;
+  properties?: Record<string, unknown> | null;
+  click_kind?: string | null;
+  click_target?: string | null;
+  click_label?: string | null;
+  source?: string | null;
+  medium?: string | null;
+  campaign?: string | null;
+  experiment?: string | null;
+  variant?: string | null;
+  sample_rate?: number | null;
+  session_id?: string | null;
+  visitor_id?: string | null;
+  time_on_page?: number | null;
+  total_time_on_page?: number | null;
+  active_time?: number | null;
+  max_scroll_depth?: number | null;
+  scroll_events_count?: number | null;
+  ua?: string | null;
+  viewport_w?: number | null;
+  viewport_h?: number | null;
+};
+
+export type SessionSummary = {
+  sessionId: string;
+  visitorId: string | null;
+  page: string;
+  startedAt: string;
+  maxScrollDepth: number;
+  totalTimeOnPage: number;
+  // null for sessions recorded before the tracker measured attention
+  activeTime: number | null;
+  scrollEventsCount: number;
+  ua: string;
+  viewportW: number;
+  viewportH: number;
+  // Sessions this one stands for in totals, 1 / sample rate
+  weight: number;
+};
+
+// Group pages by host and path so query strings and hashes don't split them
+export function pagePath(url?: string | null) {
+  if (!url) return "Unknown";
+  try {
+    const parsed = new URL(url);
+    return `${parsed.host}${parsed.pathname}`;
+  } catch {
+    return url;
+  }
+}
+
+// Sampled trackers keep a share of sessions; each kept event stands for
+// 1 / sample_rate events in totals
+export function sampleWeight(event: Pick<ScrollEventRow, "sample_rate">) {
+  return event.sample_rate && event.sample_rate > 0 ? 1 / event.sample_rate : 1;
+}
+
+// Sum of weights, i.e. a count scaled back up by sample rate
+export function weightedCount(items: { weight: number }[]) {
+  return Math.round(items.reduce((sum, item) => sum + item.weight, 0));
+}
+
+// Latest session_end summary per session among those `include` accepts.
+// Summaries are cumulative and resent each time the tab is hidden, so later
+// ones supersede earlier ones.
+export function latestSessionSummaries(
+  events: ScrollEventRow[],
+  include: (event: ScrollEventRow) => boolean
+): ScrollEventRow[] {
+  const latest = new Map<string, ScrollEventRow>();
+  events.forEach((event) => {
+    if (event.event_type !== "session_end" || !include(event)) return;
+    const key = event.session_id || event.occurred_at;
+    const existing = latest.get(key);
+    if (!existing || event.occurred_at > existing.occurred_at) {
+      latest.set(key, event);
+    }
+  });
+  return Array.from(latest.values());
+}
+
+// The same summaries grouped by page
+export function latestSessionSummariesByPage(
+  events: ScrollEventRow[],
+  include: (event: ScrollEventRow) => boolean
+): Map<string, ScrollEventRow[]> {
+  const byPage = new Map<string, ScrollEventRow[]>();
+  latestSessionSummaries(events, include).forEach((event) => {
+    const page = pagePath(event.page_url);
+    if (!byPage.has(page)) byPage.set(page, []);
+    byPage.get(page)!.push(event);
+  });
+  return byPage;
+}
+
+// Events recorded before the tracker sent a session ID can only be grouped
+// by their engagement numbers, which is the best we can do for old data
+function sessionKey(event: ScrollEventRow) {
+  if (event.session_id) return event.session_id;
+  if (event.total_time_on_page && event.max_scroll_depth) {
+    return `legacy-${event.total_time_on_page}-${event.max_scroll_depth}`;
+  }
+  return null;
+}
+
+// Collapse raw events into one summary per page-view session
+export function summarizeSessions(events: ScrollEventRow[]): SessionSummary[] {
+  const sessions = new Map<string, SessionSummary>();
+
+  events.forEach((event) => {
+    const key = sessionKey(event);
+    if (!key) return;
+
+    const existing = sessions.get(key);
+    const depth = Math.max(
+      event.scroll_depth || 0,
+      event.max_scroll_depth || 0
+    );
+    const time = Math.max(
+      event.time_on_page || 0,
+      event.total_time_on_page || 0
+    );
+
+    if (!existing) {
+      sessions.set(key, {
+        sessionId: key,
+        visitorId: event.visitor_id || null,
+        page: pagePath(event.page_url),
+        startedAt: event.occurred_at,
+        maxScrollDepth: depth,
+        totalTimeOnPage: time,
+        activeTime: event.active_time ?? null,
+        scrollEventsCount: event.scroll_events_count || 0,
+        ua: event.ua || "",
+        viewportW: event.viewport_w || 0,
+        viewportH: event.viewport_h || 0,
+        weight: sampleWeight(event),
+      });
+      return;
+    }
+
+    existing.maxScrollDepth = Math.max(existing.maxScrollDepth, depth);
+    existing.totalTimeOnPage = Math.max(existing.totalTimeOnPage, time);
+    if (event.active_time != null) {
+      existing.activeTime = Math.max(
+        existing.activeTime ?? 0,
+        event.active_time
+      );
+    }
+    existing.scrollEventsCount = Math.max(
+      existing.scrollEventsCount,
+      event.scroll_events_count || 0
+    );
+    if (event.occurred_at < existing.startedAt) {
+      existing.startedAt = event.occurred_at;
+    }
+  });
+
+  return Array.from(sessions.values());
+}
@@ -0,0 +1,11 @@
+import { startTracker } from "scrollsensie";
+import { ScriptSettings } from "@/lib/tracker-settings";
+
+// The hosted /api/tracker.js is the package's tracker core with the
+// tracker's settings baked in, so script tags and npm installs run the
+// same code. startTracker is self-contained, so its source runs as is.
+export function buildTrackerScript(settings: ScriptSettings): string {
+  return `(${startTracker.toString()})({ settings: ${JSON.stringify(
+    settings
+  )}, script: document.currentScript });`;
+}
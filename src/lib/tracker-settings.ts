@@ -0,0 +1,98 @@
+import { z } from "zod";
+import { normalizeOriginPattern } from "@/lib/origins";
+
+// Lowest sample rate an event is stored with; each sampled event counts as
+// 1 / rate in dashboard totals, so this caps what one event can stand for
+export const MIN_SAMPLE_RATE = 0.01;
+
+// Per-tracker script settings, stored in trackers.settings
+export const trackerSettingsSchema = z.object({
+  milestones: z.array(z.number().int().min(1).max(100)).min(1).max(20),
+  // 0 stops tracking; otherwise at least MIN_SAMPLE_RATE
+  sampleRate: z
+    .number()
+    .min(0)
+    .max(1)
+    .refine((rate) => rate === 0 || rate >= MIN_SAMPLE_RATE),
+  spa: z.boolean(),
+  respectPrivacySignals: z.boolean(),
+  trackOutboundLinks: z.boolean(),
+  webVitals: z.boolean(),
+  // Element holding the main content for word counts; empty for the default
+  contentSelector: z.string().trim().max(200),
+  // Hosts /api/track accepts events from; empty accepts any host
+  allowedOrigins: z
+    .array(
+      z
+        .string()
+        .transform(normalizeOriginPattern)
+        .pipe(
+          z
+            .string()
+            .min(1)
+            .max(253)
+            .regex(/^(\*|(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*)$/)
+        )
+    )
+    .max(50),
+  // Events /api/track accepts per minute, for the whole tracker and from a
+  // single IP address; 0 turns the limit off
+  eventsPerMinute: z.number().int().min(0).max(1000000),
+  eventsPerMinutePerIp: z.number().int().min(0).max(100000),
+});
+
+export type TrackerSettings = z.infer<typeof trackerSettingsSchema>;
+
+export const DEFAULT_TRACKER_SETTINGS: TrackerSettings = {
+  milestones: [25, 50, 75, 100],
+  sampleRate: 1,
+  spa: true,
+  respectPrivacySignals: false,
+  trackOutboundLinks: false,
+  webVitals: false,
+  contentSelector: "",
+  allowedOrigins: [],
+  eventsPerMinute: 10000,
+  eventsPerMinutePerIp: 600,
+};
+
+// Settings only the server uses, left out of the tracker script
+const SERVER_SETTINGS = [
+  "allowedOrigins",
+  "eventsPerMinute",
+  "eventsPerMinutePerIp",
+] as const;
+
+export type ScriptSettings = Omit<
+  TrackerSettings,
+  (typeof SERVER_SETTINGS)[number]
+>;
+
+export function toScriptSettings(settings: TrackerSettings): ScriptSettings {
+  const script = { ...settings };
+  SERVER_SETTINGS.forEach((key) => delete script[key]);
+  return script;
+}
+
+// Merge stored settings over the defaults. Invalid or missing fields fall
+// back to their default so a bad row never breaks the tracking script.
+export function parseTrackerSettings(raw: unknown): TrackerSettings {
+  const stored = raw && typeof raw === "object" ? raw : {};
+  const settings = { ...DEFAULT_TRACKER_SETTINGS };
+
+  for (const key of Object.keys(trackerSettingsSchema.shape) as Array<
+    keyof TrackerSettings
+  >) {
+    const field = trackerSettingsSchema.shape[key].safeParse(
+      (stored as Record<string, unknown>)[key]
+    );
+    if (field.success) {
+      (settings as Record<string, unknown>)[key] = field.data;
+    }
+  }
+
+  settings.milestones = Array.from(new Set(settings.milestones)).sort(
+    (a, b) => a - b
+  );
+  return settings;
+}
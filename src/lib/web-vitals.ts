@@ -0,0 +1,103 @@
+// Core Web Vitals ratings and per-rating dashboard metrics
+import {
+  ScrollEventRow,
+  SessionSummary,
+  latestSessionSummaries,
+  weightedCount,
+} from "@/lib/sessions";
+
+export type VitalMetric = "lcp" | "cls" | "inp";
+export type VitalRating = "good" | "needs-improvement" | "poor";
+
+// Upper bounds for "good" and "needs improvement", as published on web.dev
+export const VITAL_THRESHOLDS: Record<VitalMetric, [number, number]> = {
+  lcp: [2500, 4000],
+  cls: [0.1, 0.25],
+  inp: [200, 500],
+};
+
+export function rateVital(metric: VitalMetric, value: number): VitalRating {
+  const [good, needsImprovement] = VITAL_THRESHOLDS[metric];
+  if (value <= good) return "good";
+  if (value <= needsImprovement) return "needs-improvement";
+  return "poor";
+}
+
+export type RatingStats = {
+  rating: VitalRating;
+  sessions: number;
+  avgDepth: number;
+  completionRate: number;
+};
+
+export type VitalStats = {
+  metric: VitalMetric;
+  // Median over sessions that reported the metric
+  median: number | null;
+  ratings: RatingStats[];
+};
+
+const RATINGS: VitalRating[] = ["good", "needs-improvement", "poor"];
+
+// Scroll depth and completion for sessions grouped by each vital's rating
+export function summarizeWebVitals(
+  events: ScrollEventRow[],
+  sessions: SessionSummary[]
+): VitalStats[] {
+  // Latest value of each metric per session
+  const values = new Map<string, Partial<Record<VitalMetric, number>>>();
+  latestSessionSummaries(
+    events,
+    (event) =>
+      !!event.session_id &&
+      (event.lcp != null || event.cls != null || event.inp != null)
+  ).forEach((event) => {
+    values.set(event.session_id!, {
+      lcp: event.lcp ?? undefined,
+      cls: event.cls != null ? Number(event.cls) : undefined,
+      inp: event.inp ?? undefined,
+    });
+  });
+
+  return (Object.keys(VITAL_THRESHOLDS) as VitalMetric[]).map((metric) => {
+    const rated = sessions
+      .map((session) => ({
+        session,
+        value: values.get(session.sessionId)?.[metric],
+      }))
+      .filter(
+        (r): r is { session: SessionSummary; value: number } =>
+          r.value !== undefined
+      );
+
+    const sorted = rated.map((r) => r.value).sort((a, b) => a - b);
+    const median = sorted.length ? sorted[Math.floor(sorted.length / 2)] : null;
+
+    return {
+      metric,
+      median,
+      ratings: RATINGS.map((rating) => {
+        const group = rated
+          .filter((r) => rateVital(metric, r.value) === rating)
+          .map((r) => r.session);
+        return {
+          rating,
+          sessions: weightedCount(group),
+          avgDepth: group.length
+            ? Math.round(
+                group.reduce((sum, s) => sum + s.maxScrollDepth, 0) /
+                  group.length
+              )
+            : 0,
+          completionRate: group.length
+            ? Math.round(
+                (group.filter((s) => s.maxScrollDepth >= 100).length /
+                  group.length) *
+                  100
+              )
+            : 0,
+        };
+      }),
+    };
+  });
+}
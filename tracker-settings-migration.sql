@@ -0,0 +1,6 @@
+-- Add per-tracker script settings to trackers table
+ALTER TABLE public.trackers
+ADD COLUMN IF NOT EXISTS settings JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.trackers.settings IS 'Tracker script settings (milestones, sampleRate, spa); missing keys use the application defaults';
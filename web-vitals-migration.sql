@@ -0,0 +1,10 @@
+-- Add Core Web Vitals columns to scroll_events table
+ALTER TABLE public.scroll_events
+ADD COLUMN IF NOT EXISTS lcp INTEGER,
+ADD COLUMN IF NOT EXISTS cls NUMERIC(8, 3),
+ADD COLUMN IF NOT EXISTS inp INTEGER;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.scroll_events.lcp IS 'Largest Contentful Paint in milliseconds (session_end events of the landing page view only)';
+COMMENT ON COLUMN public.scroll_events.cls IS 'Cumulative Layout Shift, largest session window (session_end events of the landing page view only)';
+COMMENT ON COLUMN public.scroll_events.inp IS 'Interaction to Next Paint in milliseconds (session_end events of the landing page view only)';